@@ -0,0 +1,27 @@
+import type { NextRequest } from "next/server";
+import { describePaidMcp } from "@/app/mcp/discovery";
+import { describePaidRoutes } from "@/app/openrouter/discovery";
+import { applyCorsHeaders, createCorsPreflightResponse } from "@/lib/cors";
+import { createDiscoveryManifest } from "@/lib/discovery";
+
+export const runtime = "nodejs";
+
+export function OPTIONS(request: NextRequest) {
+	return createCorsPreflightResponse(request);
+}
+
+/** Free manifest of every paid proxy route and MCP tool, resource and prompt. */
+export async function GET(request: NextRequest) {
+	const baseUrl = request.nextUrl.origin;
+	const manifest = createDiscoveryManifest(
+		describePaidRoutes(baseUrl),
+		await describePaidMcp(baseUrl),
+	);
+
+	return applyCorsHeaders(
+		request,
+		new Response(JSON.stringify(manifest), {
+			headers: { "Content-Type": "application/json" },
+		}),
+	);
+}
@@ -0,0 +1,42 @@
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import { isAuthorizedApiKey } from "@/lib/api-key";
+import { env } from "@/lib/env";
+import { paymentLedger } from "@/lib/payment-ledger";
+import { jsonResponse } from "@/lib/utils";
+
+export const runtime = "nodejs";
+
+const querySchema = z.object({
+	payer: z.string().optional(),
+	resource: z.string().optional(),
+	type: z
+		.enum(["verification", "settlement", "failure", "released"])
+		.optional(),
+	from: z.coerce.date().optional(),
+	to: z.coerce.date().optional(),
+	limit: z.coerce.number().int().positive().max(1000).default(100),
+});
+
+export async function GET(request: NextRequest) {
+	if (!env.RECEIPTS_API_KEY) {
+		return jsonResponse({ error: "Receipts API is not configured" }, 503);
+	}
+
+	if (!isAuthorizedApiKey(request, env.RECEIPTS_API_KEY)) {
+		return jsonResponse({ error: "Unauthorized" }, 401);
+	}
+
+	const query = querySchema.safeParse(
+		Object.fromEntries(request.nextUrl.searchParams),
+	);
+	if (!query.success) {
+		return jsonResponse(
+			{ error: "Invalid query", issues: query.error.flatten().fieldErrors },
+			400,
+		);
+	}
+
+	const receipts = await paymentLedger.query(query.data);
+	return jsonResponse({ receipts });
+}
@@ -0,0 +1,80 @@
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import { isAuthorizedApiKey } from "@/lib/api-key";
+import { env } from "@/lib/env";
+import { settlementQueue } from "@/lib/settlement-queue";
+import { jsonResponse } from "@/lib/utils";
+
+export const runtime = "nodejs";
+
+const querySchema = z.object({
+	// Settled jobs leave the queue; the ledger has their record.
+	status: z.enum(["pending", "dead"]).optional(),
+	limit: z.coerce.number().int().positive().max(1000).default(100),
+});
+
+const retrySchema = z.object({
+	id: z.string().min(1),
+});
+
+function checkAccess(request: Request) {
+	if (!env.RECEIPTS_API_KEY) {
+		return jsonResponse({ error: "Settlements API is not configured" }, 503);
+	}
+
+	if (!isAuthorizedApiKey(request, env.RECEIPTS_API_KEY)) {
+		return jsonResponse({ error: "Unauthorized" }, 401);
+	}
+
+	return undefined;
+}
+
+export async function GET(request: NextRequest) {
+	const denied = checkAccess(request);
+	if (denied) {
+		return denied;
+	}
+
+	const query = querySchema.safeParse(
+		Object.fromEntries(request.nextUrl.searchParams),
+	);
+	if (!query.success) {
+		return jsonResponse(
+			{ error: "Invalid query", issues: query.error.flatten().fieldErrors },
+			400,
+		);
+	}
+
+	const settlements = await settlementQueue.list(query.data);
+	return jsonResponse({ settlements });
+}
+
+/** Re-queues a dead-lettered settlement by id. */
+export async function POST(request: NextRequest) {
+	const denied = checkAccess(request);
+	if (denied) {
+		return denied;
+	}
+
+	const body = retrySchema.safeParse(await request.json().catch(() => null));
+	if (!body.success) {
+		return jsonResponse(
+			{ error: "Invalid body", issues: body.error.flatten().fieldErrors },
+			400,
+		);
+	}
+
+	const job = await settlementQueue.get(body.data.id);
+	if (!job) {
+		return jsonResponse({ error: "Settlement not found" }, 404);
+	}
+
+	if (!(await settlementQueue.retry(job.id))) {
+		return jsonResponse(
+			{ error: `Only dead settlements can be retried (status: ${job.status})` },
+			409,
+		);
+	}
+
+	return jsonResponse({ id: job.id, status: "pending" });
+}
@@ -0,0 +1,65 @@
+import type { DiscoveryEntry } from "@/lib/discovery";
+import {
+	initializeMcpServer,
+	mcpPaymentConfig,
+	mcpServerOptions,
+} from "./server";
+import {
+	describePaidMcpServer,
+	type PaidMcpDescription,
+	type PricingEntry,
+} from "./x402-mcp-server";
+
+let description: Promise<PaidMcpDescription> | undefined;
+
+function toDiscoveryEntry(
+	resource: string,
+	method: string,
+	pricing: PricingEntry,
+): DiscoveryEntry {
+	return {
+		type: "mcp",
+		resource,
+		method,
+		name: pricing.uri ?? pricing.name,
+		description: pricing.description,
+		price: pricing.price,
+		accepts: pricing.accepts ?? [],
+	};
+}
+
+/**
+ * Lists everything the `/mcp` server under `baseUrl` sells. The server is
+ * built once from the same definition the route serves.
+ */
+export async function describePaidMcp(
+	baseUrl: string,
+): Promise<DiscoveryEntry[]> {
+	description ??= describePaidMcpServer(
+		initializeMcpServer,
+		mcpServerOptions,
+		mcpPaymentConfig,
+	).catch((error) => {
+		description = undefined;
+		throw error;
+	});
+	const { catalog, tools } = await description;
+	const resource = `${baseUrl}/mcp`;
+
+	return [
+		...catalog.tools.map((pricing) => {
+			const tool = tools.find((candidate) => candidate.name === pricing.name);
+			return {
+				...toDiscoveryEntry(resource, "tools/call", pricing),
+				inputSchema: tool?.inputSchema,
+				outputSchema: tool?.outputSchema,
+			};
+		}),
+		...catalog.resources.map((pricing) =>
+			toDiscoveryEntry(resource, "resources/read", pricing),
+		),
+		...catalog.prompts.map((pricing) =>
+			toDiscoveryEntry(resource, "prompts/get", pricing),
+		),
+	];
+}
@@ -0,0 +1,78 @@
+import { facilitator } from "@coinbase/x402";
+import { privateKeyToAccount } from "viem/accounts";
+import z from "zod";
+import { env } from "@/lib/env";
+import type {
+	ConfigWithPayment,
+	FacilitatorConfig,
+	PaymentMcpServer,
+	ServerOptions,
+} from "./x402-mcp-server";
+
+const sellerAccount = privateKeyToAccount(
+	env.SERVICE_PRIVATE_KEY as `0x${string}`,
+);
+const network = env.NETWORK;
+
+/**
+ * Registers what the MCP server offers. Shared by the `/mcp` route and the
+ * discovery manifest, so the manifest lists exactly what is served.
+ */
+export function initializeMcpServer(server: PaymentMcpServer) {
+	server.paidTool(
+		"get_random_number",
+		"Get a random number between two numbers",
+		{ price: 0.001 },
+		{
+			min: z.number().int(),
+			max: z.number().int(),
+		},
+		{},
+		async (args) => {
+			const randomNumber =
+				Math.floor(Math.random() * (args.max - args.min + 1)) + args.min;
+			return {
+				content: [{ type: "text", text: randomNumber.toString() }],
+			};
+		},
+	);
+	server.paidTool(
+		"add",
+		"Add two numbers",
+		{ price: 0.001 },
+		{
+			a: z.number().int(),
+			b: z.number().int(),
+		},
+		{},
+		async (args) => {
+			const result = args.a + args.b;
+			return {
+				content: [{ type: "text", text: result.toString() }],
+			};
+		},
+	);
+	server.tool(
+		"hello-remote",
+		"Receive a greeting",
+		{
+			name: z.string(),
+		},
+		async (args) => {
+			return { content: [{ type: "text", text: `Hello ${args.name}` }] };
+		},
+	);
+}
+
+export const mcpServerOptions: ServerOptions = {
+	serverInfo: {
+		name: "test-mcp",
+		version: "0.0.1",
+	},
+};
+
+export const mcpPaymentConfig: ConfigWithPayment = {
+	recipient: sellerAccount.address,
+	facilitator: facilitator as unknown as FacilitatorConfig,
+	network,
+};
@@ -0,0 +1,215 @@
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import type { PaymentRequirements } from "x402/types";
+import type { PaymentReceipt } from "@/lib/payment-engine";
+import { type PaymentClient, settleReservation } from "@/lib/payment-client";
+
+type CallToolParams = Parameters<Client["callTool"]>[0];
+type CallToolResult = Awaited<ReturnType<Client["callTool"]>>;
+
+export interface McpPaymentRequest {
+	method: "tools/call" | "resources/read" | "prompts/get";
+	/** Tool or prompt name, or resource URI. */
+	name: string;
+	arguments?: Record<string, unknown>;
+	requirement: PaymentRequirements;
+}
+
+export interface ClientPaymentConfig {
+	paymentClient: PaymentClient;
+	/**
+	 * Asked before each payment is signed, e.g. to prompt a human. Resolve
+	 * false to decline; the call then rejects, as it does when the budget
+	 * refuses the payment.
+	 */
+	confirm?(request: McpPaymentRequest): boolean | Promise<boolean>;
+}
+
+interface PaymentRequiredContent {
+	x402Version?: number;
+	accepts?: PaymentRequirements[];
+}
+
+function readPaymentRequired(result: CallToolResult) {
+	if (!result.isError) {
+		return undefined;
+	}
+
+	let body = result.structuredContent as PaymentRequiredContent | undefined;
+	if (!body && Array.isArray(result.content)) {
+		const [first] = result.content;
+		if (first?.type === "text") {
+			try {
+				body = JSON.parse(first.text) as PaymentRequiredContent;
+			} catch {
+				return undefined;
+			}
+		}
+	}
+
+	return Array.isArray(body?.accepts) && body.accepts.length > 0
+		? body
+		: undefined;
+}
+
+/** Requirements a paid resource or prompt returned instead of content. */
+function readPaymentRequiredMeta(result: { _meta?: Record<string, unknown> }) {
+	const body = result._meta?.["x402/payment-required"] as
+		| PaymentRequiredContent
+		| undefined;
+	return Array.isArray(body?.accepts) && body.accepts.length > 0
+		? body
+		: undefined;
+}
+
+/**
+ * The receipt a paid tool, resource or prompt result carries in
+ * `_meta["x402/payment-response"]`.
+ */
+export function getToolPaymentReceipt(result: {
+	_meta?: Record<string, unknown>;
+}) {
+	return result._meta?.["x402/payment-response"] as PaymentReceipt | undefined;
+}
+
+/**
+ * Client-side counterpart of `paidTool`, `paidResource` and `paidPrompt`:
+ * when a request is answered with x402 requirements, signs a payment within
+ * the client's budget, re-issues it with the payment in
+ * `_meta["x402/payment"]` and returns the paid result, receipt included.
+ */
+export function withPaymentClient<T extends Client>(
+	client: T,
+	config: ClientPaymentConfig,
+): T {
+	const { paymentClient, confirm } = config;
+
+	const pay = (
+		paymentRequired: PaymentRequiredContent & {
+			accepts: PaymentRequirements[];
+		},
+		request: Omit<McpPaymentRequest, "requirement">,
+	) =>
+		paymentClient.pay(
+			paymentRequired.accepts,
+			paymentRequired.x402Version ?? 1,
+			{
+				confirm: confirm
+					? (requirement) => confirm({ ...request, requirement })
+					: undefined,
+			},
+		);
+
+	/** Pays for a resource or prompt that answered with requirements. */
+	const retryWithPayment = async <
+		Params extends { _meta?: Record<string, unknown> },
+		Result extends { _meta?: Record<string, unknown> },
+	>(
+		params: Params,
+		call: (params: Params) => Promise<Result>,
+		request: Omit<McpPaymentRequest, "requirement">,
+	): Promise<Result> => {
+		const result = await call(params);
+		const paymentRequired = readPaymentRequiredMeta(result);
+		if (!paymentRequired?.accepts || params._meta?.["x402/payment"]) {
+			return result;
+		}
+
+		const signed = await pay(
+			{ ...paymentRequired, accepts: paymentRequired.accepts },
+			request,
+		);
+		if (!signed.ok) {
+			throw new Error(`x402 payment refused: ${signed.error}`);
+		}
+
+		let paidResult: Result;
+		try {
+			paidResult = await call({
+				...params,
+				_meta: { ...params._meta, "x402/payment": signed.payment },
+			});
+		} catch (error) {
+			signed.reservation.release();
+			throw error;
+		}
+
+		settleReservation(
+			signed.reservation,
+			getToolPaymentReceipt(paidResult),
+			false,
+		);
+		return paidResult;
+	};
+
+	const readResource: Client["readResource"] = (params, options) =>
+		retryWithPayment(params, (paid) => client.readResource(paid, options), {
+			method: "resources/read",
+			name: params.uri,
+		});
+
+	const getPrompt: Client["getPrompt"] = (params, options) =>
+		retryWithPayment(params, (paid) => client.getPrompt(paid, options), {
+			method: "prompts/get",
+			name: params.name,
+			arguments: params.arguments,
+		});
+
+	const callTool: Client["callTool"] = async (
+		params,
+		resultSchema,
+		options,
+	) => {
+		const result = await client.callTool(params, resultSchema, options);
+		const paymentRequired = readPaymentRequired(result);
+		if (!paymentRequired?.accepts || params._meta?.["x402/payment"]) {
+			return result;
+		}
+
+		const signed = await pay(
+			{ ...paymentRequired, accepts: paymentRequired.accepts },
+			{
+				method: "tools/call",
+				name: params.name,
+				arguments: params.arguments,
+			},
+		);
+		if (!signed.ok) {
+			throw new Error(`x402 payment refused: ${signed.error}`);
+		}
+
+		const paidParams: CallToolParams = {
+			...params,
+			_meta: {
+				...params._meta,
+				"x402/payment": signed.payment,
+			},
+		};
+
+		let paidResult: CallToolResult;
+		try {
+			paidResult = await client.callTool(paidParams, resultSchema, options);
+		} catch (error) {
+			signed.reservation.release();
+			throw error;
+		}
+
+		settleReservation(
+			signed.reservation,
+			getToolPaymentReceipt(paidResult),
+			false,
+		);
+
+		return paidResult;
+	};
+
+	const paidMethods: Partial<Client> = { callTool, readResource, getPrompt };
+
+	return new Proxy(client, {
+		get(target, prop, receiver) {
+			if (prop in paidMethods) {
+				return paidMethods[prop as keyof typeof paidMethods];
+			}
+			return Reflect.get(target, prop, receiver);
+		},
+	});
+}
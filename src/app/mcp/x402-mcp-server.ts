@@ -1,20 +1,45 @@
-import type {
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
 	McpServer,
-	RegisteredTool,
-	ToolCallback,
+	type PromptCallback,
+	type ReadResourceCallback,
+	type ReadResourceTemplateCallback,
+	type RegisteredPrompt,
+	type RegisteredResource,
+	type RegisteredResourceTemplate,
+	type RegisteredTool,
+	type ResourceMetadata,
+	type ResourceTemplate,
+	type ToolCallback,
 } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import type {
+	CallToolResult,
+	GetPromptResult,
+	ReadResourceResult,
+	Tool,
+	ToolAnnotations,
+} from "@modelcontextprotocol/sdk/types.js";
 import { createMcpHandler } from "mcp-handler";
 import type { Address } from "viem";
-import { exact } from "x402/schemes";
-import { processPriceToAtomicAmount } from "x402/shared";
-import type {
-	ERC20TokenAmount,
-	PaymentPayload,
-	PaymentRequirements,
-} from "x402/types";
-import { useFacilitator } from "x402/verify";
-import z, { type ZodRawShape } from "zod";
+import type { PaymentRequirements, Resource } from "x402/types";
+import { type ZodRawShape, z } from "zod";
+import {
+	createPaymentEngine,
+	createPaymentRequirements,
+	type PaymentEngine,
+	type PaymentFailure,
+	type PaymentRequestConfig,
+	X402_VERSION,
+} from "@/lib/payment-engine";
+import { createLogger } from "@/lib/logger";
+import { mcpMetrics } from "@/lib/metrics";
+import type { PayerPolicy } from "@/lib/payer-policy";
+import type { PaymentLedger } from "@/lib/payment-ledger";
+import type { PaymentNonceStore } from "@/lib/payment-nonce-store";
+import { createPaymentQuote, resolveQuotedPrice } from "@/lib/payment-quotes";
+import { getClientIp, type RateLimitPolicy } from "@/lib/rate-limiter";
+import type { SettlementQueue } from "@/lib/settlement-queue";
 
 export interface FacilitatorConfig {
 	url: `${string}://${string}`;
@@ -26,18 +51,40 @@ export interface FacilitatorConfig {
 	}>;
 }
 
-const x402Version = 1;
-
 type Config = NonNullable<Parameters<typeof createMcpHandler>[2]>;
+type PromptArgsRawShape = NonNullable<
+	Parameters<McpServer["registerPrompt"]>[1]["argsSchema"]
+>;
+
+/**
+ * Computes a tool's price in USD from its validated arguments and the
+ * request context, for tools whose cost depends on the input.
+ */
+export type ToolPriceFunction<Args extends ZodRawShape = ZodRawShape> = (
+	...params: Parameters<ToolCallback<Args>>
+) => number | Promise<number>;
 
-export interface ServerPaymentOptions {
-	price: number; // in USD
+export interface ServerPaymentOptions<Args extends ZodRawShape = ZodRawShape> {
+	price: number | ToolPriceFunction<Args>; // in USD
+	maxTimeoutSeconds?: number;
+	/** Per-payer limits, checked after verification and before settling. */
+	rateLimit?: RateLimitPolicy;
 }
 
+/** Resources and prompts are sold at a fixed price. */
+export type FixedPaymentOptions = ServerPaymentOptions & { price: number };
+
 export interface ServerPaymentConfig {
 	recipient: Address;
 	facilitator: FacilitatorConfig;
 	network: "base-sepolia" | "base";
+	/** Defaults to the process-wide store shared with the HTTP proxy. */
+	nonceStore?: PaymentNonceStore;
+	ledger?: PaymentLedger;
+	/** Settles in the background; defaults per `SETTLEMENT_MODE`. */
+	settlementQueue?: SettlementQueue;
+	/** Who may pay; defaults to the lists from the environment. */
+	payerPolicy?: PayerPolicy;
 }
 
 export interface ConfigWithPayment extends Config, ServerPaymentConfig {}
@@ -46,119 +93,443 @@ export interface PaymentServerMethods {
 	paidTool<Args extends ZodRawShape>(
 		name: string,
 		description: string,
-		options: ServerPaymentOptions,
+		options: ServerPaymentOptions<Args>,
 		paramsSchema: Args,
 		annotations: ToolAnnotations,
 		cb: ToolCallback<Args>,
 	): RegisteredTool;
+	paidResource(
+		name: string,
+		uri: string,
+		options: FixedPaymentOptions,
+		metadata: ResourceMetadata,
+		readCallback: ReadResourceCallback,
+	): RegisteredResource;
+	paidResource(
+		name: string,
+		template: ResourceTemplate,
+		options: FixedPaymentOptions,
+		metadata: ResourceMetadata,
+		readCallback: ReadResourceTemplateCallback,
+	): RegisteredResourceTemplate;
+	paidPrompt<Args extends PromptArgsRawShape>(
+		name: string,
+		description: string,
+		options: FixedPaymentOptions,
+		argsSchema: Args,
+		cb: PromptCallback<Args>,
+	): RegisteredPrompt;
 }
 
 export type PaymentMcpServer = McpServer & PaymentServerMethods;
 
-type ServerOptions = NonNullable<Parameters<typeof createMcpHandler>[1]>;
+/** What a paid tool, resource or prompt costs, as published in `list_pricing`. */
+export interface PricingEntry {
+	name: string;
+	description: string;
+	/** Resource URI or URI template. */
+	uri?: string;
+	/** USD, or "dynamic" when computed from each call's arguments. */
+	price: number | "dynamic";
+	network: ServerPaymentConfig["network"];
+	payTo: Address;
+	/** Only known up front for fixed prices. */
+	accepts?: PaymentRequirements[];
+}
+
+export interface PricingCatalog {
+	tools: PricingEntry[];
+	resources: PricingEntry[];
+	prompts: PricingEntry[];
+}
 
-function createPaidToolMethod(
-	server: McpServer,
+/** What is being sold, in the terms of the MCP request that buys it. */
+interface PaidTarget {
+	name: string;
+	description: string;
+	resource: Resource;
+	/** Metric label when `resource` varies per request. */
+	resourceLabel?: string;
+	/** Describes the paid request in `outputSchema.input`. */
+	input: Record<string, unknown>;
+}
+
+/** A paid tool as `quote_tool_call` needs it: enough to price any call. */
+interface QuotableTool {
+	target: PaidTarget;
+	options: ServerPaymentOptions;
+	paramsSchema: ZodRawShape;
+}
+
+const log = createLogger("mcp");
+
+const PRICING_META_KEY = "x402/pricing";
+const QUOTE_META_KEY = "x402/quote";
+const LIST_PRICING_TOOL = "list_pricing";
+const QUOTE_TOOL = "quote_tool_call";
+
+type PaidCallOutcome =
+	| "paid"
+	| "payment_required"
+	| "error"
+	| "settlement_failed";
+
+function recordPaidCall(
+	method: string,
+	name: string,
+	outcome: PaidCallOutcome,
+) {
+	mcpMetrics.calls.inc({ method, name, outcome });
+}
+
+/** The client IP the MCP transport saw, for per-IP rate limits. */
+function getRequestIp(extra: {
+	requestInfo?: { headers: Record<string, string | string[] | undefined> };
+}) {
+	return extra.requestInfo ? getClientIp(extra.requestInfo.headers) : undefined;
+}
+
+/** The request context passed to every tool callback. */
+type ToolCallExtra = Parameters<ToolCallback>[0];
+
+async function resolveToolPrice(
+	options: ServerPaymentOptions,
+	args: Parameters<ToolPriceFunction>[0],
+	extra: ToolCallExtra,
+) {
+	return typeof options.price === "function"
+		? await options.price(args, extra)
+		: options.price;
+}
+
+/** Binds a quote to the tool and the exact validated arguments. */
+function createToolQuoteRequest(name: string, args: unknown) {
+	return { target: `tools/call ${name}`, body: JSON.stringify(args) };
+}
+
+function createPaidRequest(
+	target: PaidTarget,
+	price: number,
+	options: Pick<ServerPaymentOptions, "maxTimeoutSeconds" | "rateLimit">,
 	config: ServerPaymentConfig,
-): PaymentMcpServer["paidTool"] {
-	const paidTool: PaymentMcpServer["paidTool"] = (
-		name,
-		description,
-		options,
-		paramsSchema,
-		annotations,
-		cb,
-	) => {
-		const cbWithPayment: ToolCallback<any> = async (args, extra) => {
-			const { verify, settle } = useFacilitator(config.facilitator);
-			const makeErrorResponse = (obj: Record<string, unknown>) => {
-				return {
-					isError: true,
-					structuredContent: obj,
-					content: [{ type: "text", text: JSON.stringify(obj) }] as const,
-				} as const;
-			};
-			console.log("[x402-mcp-server] Tool request received");
+	ip?: string,
+): PaymentRequestConfig {
+	return {
+		price,
+		network: config.network,
+		payTo: config.recipient,
+		resource: target.resource,
+		resourceLabel: target.resourceLabel,
+		description: target.description,
+		mimeType: "application/json",
+		maxTimeoutSeconds: options.maxTimeoutSeconds,
+		outputSchema: {
+			input: {
+				type: "mcp",
+				...target.input,
+				discoverable: true,
+			},
+		},
+		errorMessages: {
+			paymentRequired: "_meta.x402/payment is required",
+		},
+		subject: target.name,
+		rateLimit: options.rateLimit && {
+			scope: `${target.input.method} ${target.name}`,
+			policy: options.rateLimit,
+			ip,
+		},
+	};
+}
 
-			const payment = extra._meta?.["x402/payment"];
+function createPricingEntry(
+	target: PaidTarget,
+	options: ServerPaymentOptions,
+	config: ServerPaymentConfig,
+): PricingEntry {
+	const pricing = {
+		name: target.name,
+		description: target.description,
+		network: config.network,
+		payTo: config.recipient,
+	};
+	if (typeof options.price === "function") {
+		return { ...pricing, price: "dynamic" };
+	}
 
-			const atomicAmountForAsset = processPriceToAtomicAmount(
-				options.price,
-				config.network,
-			);
-			if ("error" in atomicAmountForAsset) {
-				throw new Error("Failed to process price to atomic amount");
-			}
-			const { maxAmountRequired, asset } = atomicAmountForAsset;
-			const paymentRequirements: PaymentRequirements = {
-				scheme: "exact",
-				network: config.network,
-				maxAmountRequired,
-				payTo: config.recipient,
-				asset: asset.address,
-				maxTimeoutSeconds: 300,
-				resource: `mcp://tool/${name}`,
+	const accepts = createPaymentRequirements(
+		createPaidRequest(target, options.price, options, config),
+	);
+	if (!Array.isArray(accepts)) {
+		throw new Error(`Cannot price ${target.name}: ${accepts.error}`);
+	}
+
+	return { ...pricing, price: options.price, accepts };
+}
+
+function createPaymentRequired(failure: PaymentFailure) {
+	return {
+		x402Version: X402_VERSION,
+		// HTTP-style status, e.g. 403 for a refused payer.
+		status: failure.status,
+		error: failure.error,
+		accepts: failure.accepts,
+		payer: failure.payer,
+		retryAfter: failure.retryAfter,
+	};
+}
+
+/**
+ * The x402 flow for resources and prompts. They have no `isError` result
+ * and the SDK drops JSON-RPC error data, so a missing or failed payment is
+ * answered with a result carrying the requirements in
+ * `_meta["x402/payment-required"]`. A throwing callback releases the
+ * payment; a successful result is settled and carries the receipt.
+ */
+async function runPaidRequest<T extends { _meta?: Record<string, unknown> }>(
+	engine: PaymentEngine,
+	method: string,
+	request: PaymentRequestConfig,
+	encodedPayment: unknown,
+	execute: () => T | Promise<T>,
+	makeFailureResult: (paymentRequired: Record<string, unknown>) => T,
+): Promise<T> {
+	const makeFailure = (failure: PaymentFailure) => {
+		const paymentRequired = createPaymentRequired(failure);
+		const result = makeFailureResult(paymentRequired);
+		result._meta = {
+			...result._meta,
+			"x402/payment-required": paymentRequired,
+		};
+		return result;
+	};
+
+	const name = request.subject ?? "";
+	const payment = await engine.processPayment(request, encodedPayment);
+	if (!payment.ok) {
+		log.info("Payment required", { method, name, error: payment.error });
+		recordPaidCall(method, name, "payment_required");
+		return makeFailure(payment);
+	}
+
+	let result: T;
+	try {
+		result = await execute();
+	} catch (error) {
+		recordPaidCall(method, name, "error");
+		await payment.release(
+			`Request failed: ${error instanceof Error ? error.message : error}`,
+		);
+		throw error;
+	}
+
+	const settlement = await payment.settle();
+	if (!settlement.ok) {
+		log.error("Settlement failed", { method, name, error: settlement.error });
+		recordPaidCall(method, name, "settlement_failed");
+		return makeFailure(settlement);
+	}
+	recordPaidCall(method, name, "paid");
+
+	if (settlement.receipt) {
+		result._meta = {
+			...result._meta,
+			"x402/payment-response": settlement.receipt,
+		};
+	}
+
+	return result;
+}
+
+function makeResourceFailureResult(uri: URL) {
+	return (paymentRequired: Record<string, unknown>): ReadResourceResult => ({
+		contents: [
+			{
+				uri: uri.href,
 				mimeType: "application/json",
-				description,
-				extra: (asset as ERC20TokenAmount["asset"]).eip712,
+				text: JSON.stringify(paymentRequired),
+			},
+		],
+	});
+}
+
+function makePromptFailureResult(
+	paymentRequired: Record<string, unknown>,
+): GetPromptResult {
+	return {
+		description: String(paymentRequired.error),
+		messages: [],
+	};
+}
+
+/** Free tool that lets clients plan a budget before calling anything. */
+function registerListPricingTool(server: McpServer, catalog: PricingCatalog) {
+	server.tool(
+		LIST_PRICING_TOOL,
+		"List the price, asset, network and recipient of every paid tool, resource and prompt",
+		async () => {
+			const pricing = { x402Version: X402_VERSION, ...catalog };
+			return {
+				structuredContent: pricing,
+				content: [{ type: "text", text: JSON.stringify(pricing) }],
 			};
+		},
+	);
+}
+
+/**
+ * Free tool that prices a call to a paid tool from its arguments, signed so
+ * the call is charged the quoted price while the quote is valid.
+ */
+function registerQuoteTool(
+	server: McpServer,
+	tools: Map<string, QuotableTool>,
+	config: ServerPaymentConfig,
+) {
+	const makeResult = (body: Record<string, unknown>, isError = false) => ({
+		isError,
+		structuredContent: body,
+		content: [{ type: "text" as const, text: JSON.stringify(body) }],
+	});
 
-			if (!payment) {
-				console.log(
-					"[x402-mcp-server]Returning error response for requesting payment",
+	server.registerTool(
+		QUOTE_TOOL,
+		{
+			description: `Quote the price of a paid tool call. Call the tool with the same arguments and the quote in _meta["${QUOTE_META_KEY}"] to be charged the quoted price`,
+			inputSchema: {
+				name: z.string(),
+				arguments: z.record(z.unknown()).optional(),
+			},
+		},
+		async ({ name, arguments: args = {} }, extra) => {
+			const tool = tools.get(name);
+			if (!tool) {
+				return makeResult({ error: `Unknown paid tool: ${name}` }, true);
+			}
+
+			const parsed = z.object(tool.paramsSchema).safeParse(args);
+			if (!parsed.success) {
+				return makeResult(
+					{
+						error: "Invalid arguments",
+						issues: parsed.error.flatten().fieldErrors,
+					},
+					true,
 				);
-				return makeErrorResponse({
-					x402Version,
-					error: "_meta.x402/payment is required",
-					accepts: [paymentRequirements],
-				}) as any; // I genuinely dont why this is needed
 			}
 
-			let decodedPayment: PaymentPayload;
+			let price: number;
 			try {
-				console.log("[x402-mcp-server]Decoding payment payload");
-				decodedPayment = exact.evm.decodePayment(z.string().parse(payment));
-				decodedPayment.x402Version = x402Version;
+				price = await resolveToolPrice(tool.options, parsed.data, extra);
 			} catch (error) {
-				console.log("error", error);
-				return makeErrorResponse({
-					x402Version,
-					error: "Invalid payment",
-					accepts: [paymentRequirements],
-				}) as any; // I genuinely dont why this is needed
+				return makeResult(
+					{
+						error: `Failed to price tool call: ${error instanceof Error ? error.message : error}`,
+					},
+					true,
+				);
+			}
+
+			const accepts = createPaymentRequirements(
+				createPaidRequest(tool.target, price, tool.options, config),
+			);
+			if (!Array.isArray(accepts)) {
+				return makeResult(createPaymentRequired(accepts), true);
 			}
 
-			console.log("[x402-mcp-server] Decoded Payment: \n", decodedPayment);
+			const quote = createPaymentQuote(
+				createToolQuoteRequest(name, parsed.data),
+				price,
+			);
+			return makeResult({
+				x402Version: X402_VERSION,
+				tool: name,
+				price,
+				accepts,
+				quote: quote.token,
+				expiresAt: new Date(quote.expiresAt).toISOString(),
+			});
+		},
+	);
+}
+
+export type ServerOptions = NonNullable<Parameters<typeof createMcpHandler>[1]>;
+
+function createPaidToolMethod(
+	server: McpServer,
+	config: ServerPaymentConfig,
+	engine: PaymentEngine,
+	catalog: PricingCatalog,
+	quotableTools: Map<string, QuotableTool>,
+): PaymentMcpServer["paidTool"] {
+	// Implemented over the base shape: `ToolCallback` is a conditional type,
+	// so it can't be satisfied for the generic `Args` of each call.
+	const paidTool = (
+		name: string,
+		description: string,
+		options: ServerPaymentOptions,
+		paramsSchema: ZodRawShape,
+		annotations: ToolAnnotations,
+		cb: ToolCallback<ZodRawShape>,
+	) => {
+		const target: PaidTarget = {
+			name,
+			description,
+			resource: `mcp://tool/${name}`,
+			input: { method: "tools/call", tool: name },
+		};
+		const pricing = createPricingEntry(target, options, config);
+		catalog.tools.push(pricing);
+		quotableTools.set(name, { target, options, paramsSchema });
+
+		const cbWithPayment: ToolCallback<ZodRawShape> = async (args, extra) => {
+			const makeErrorResponse = (
+				obj: Record<string, unknown>,
+			): CallToolResult => ({
+				isError: true,
+				structuredContent: obj,
+				content: [{ type: "text", text: JSON.stringify(obj) }],
+			});
+			const makeFailureResponse = (failure: PaymentFailure) =>
+				makeErrorResponse(createPaymentRequired(failure));
+			const toolLog = log.child({ method: "tools/call", name });
+			toolLog.debug("Tool request received");
 
+			const quoteToken = extra._meta?.[QUOTE_META_KEY];
+			const quotedPrice =
+				typeof quoteToken === "string"
+					? resolveQuotedPrice(quoteToken, createToolQuoteRequest(name, args))
+					: undefined;
+			if (quoteToken !== undefined && quotedPrice === undefined) {
+				toolLog.warn("Ignoring invalid or expired quote");
+			}
+
+			let price: number;
 			try {
-				console.log(
-					"[x402-mcp-server] Verifying payment with facilitator:",
-					config.facilitator.url,
-				);
-				const verification = await verify(decodedPayment, paymentRequirements);
-				if (!verification.isValid) {
-					console.log("verification failed", verification);
-					return makeErrorResponse({
-						x402Version,
-						error: verification.invalidReason,
-						accepts: [paymentRequirements],
-						payer: verification.payer,
-					}) as any;
-				}
+				price = quotedPrice ?? (await resolveToolPrice(options, args, extra));
 			} catch (error) {
-				console.log("verification error", error);
+				toolLog.error("Failed to price tool call", { error });
+				recordPaidCall("tools/call", name, "error");
 				return makeErrorResponse({
-					x402Version,
-					error: `Verification failed: ${error}`,
-				}) as any;
+					error: `Failed to price tool call: ${error instanceof Error ? error.message : error}`,
+				});
 			}
 
-			console.log(
-				"[x402-mcp-server] Payment verification successful. Executing tool...",
+			const payment = await engine.processPayment(
+				createPaidRequest(target, price, options, config, getRequestIp(extra)),
+				extra._meta?.["x402/payment"],
 			);
 
+			if (!payment.ok) {
+				toolLog.info("Payment required", { error: payment.error });
+				recordPaidCall("tools/call", name, "payment_required");
+				return makeFailureResponse(payment);
+			}
+
+			toolLog.debug("Payment verified; executing tool");
+
 			// Execute the tool
-			let result: ReturnType<ToolCallback<any>>;
+			let result: CallToolResult;
 			let executionError = false;
 			try {
 				result = await cb(args, extra);
@@ -172,7 +543,7 @@ function createPaidToolMethod(
 					executionError = true;
 				}
 			} catch (error) {
-				console.log("execution error", error);
+				toolLog.error("Tool execution failed", { error });
 				executionError = true;
 				result = {
 					isError: true,
@@ -180,77 +551,280 @@ function createPaidToolMethod(
 				};
 			}
 
-			console.log(
-				"[x402-mcp-server] Tool execution successful. Settling payment...",
-			);
-
 			// Only settle payment if execution was successful
-			if (!executionError) {
-				try {
-					const settlement = await settle(decodedPayment, paymentRequirements);
-					// Add settlement info to result if successful
-					if (settlement.success && result) {
-						// Safely add settlement info to result metadata
-						if (!result._meta) {
-							result._meta = {};
-						}
-						result._meta["x402/payment-response"] = {
-							success: true,
-							transaction: settlement.transaction,
-							network: settlement.network,
-							payer: settlement.payer,
-						};
-					}
-				} catch (settlementError) {
-					// If settlement fails, we should probably not return the result
-					console.log("settlement error", settlementError);
-					return makeErrorResponse({
-						x402Version,
-						error: `Settlement failed: ${settlementError}`,
-						accepts: [paymentRequirements],
-					}) as any;
+			if (executionError) {
+				recordPaidCall("tools/call", name, "error");
+				await payment.release("Tool execution failed");
+				return result;
+			}
+
+			toolLog.debug("Tool succeeded; settling payment");
+
+			const settlement = await payment.settle();
+			if (!settlement.ok) {
+				// If settlement fails, we should probably not return the result
+				toolLog.error("Settlement failed", { error: settlement.error });
+				recordPaidCall("tools/call", name, "settlement_failed");
+				return makeFailureResponse(settlement);
+			}
+
+			// Add settlement info to result if successful
+			if (settlement.receipt && result) {
+				// Safely add settlement info to result metadata
+				if (!result._meta) {
+					result._meta = {};
 				}
+				result._meta["x402/payment-response"] = settlement.receipt;
 			}
 
-			console.log("[x402-mcp-server] Payment Settled Return result to client.");
+			toolLog.info("Tool call paid", {
+				transaction: settlement.receipt?.transaction,
+			});
+			recordPaidCall("tools/call", name, "paid");
 
 			return result;
 		};
-		return server.tool(
+		return server.registerTool(
 			name,
-			description,
-			paramsSchema,
 			{
-				...annotations,
-				paymentHint: true,
+				description,
+				inputSchema: paramsSchema,
+				annotations: {
+					...annotations,
+					paymentHint: true,
+				},
+				_meta: {
+					[PRICING_META_KEY]: {
+						x402Version: X402_VERSION,
+						price: pricing.price,
+						network: pricing.network,
+						payTo: pricing.payTo,
+						accepts: pricing.accepts,
+					},
+				},
 			},
-			cbWithPayment as any, // I genuinely dont why this is needed
+			cbWithPayment,
 		);
 	};
-	return paidTool;
+	return paidTool as PaymentMcpServer["paidTool"];
+}
+
+function createPaidResourceMethod(
+	server: McpServer,
+	config: ServerPaymentConfig,
+	engine: PaymentEngine,
+	catalog: PricingCatalog,
+): PaymentMcpServer["paidResource"] {
+	const paidResource = (
+		name: string,
+		uriOrTemplate: string | ResourceTemplate,
+		options: FixedPaymentOptions,
+		metadata: ResourceMetadata,
+		readCallback: ReadResourceCallback | ReadResourceTemplateCallback,
+	) => {
+		const uri =
+			typeof uriOrTemplate === "string"
+				? uriOrTemplate
+				: uriOrTemplate.uriTemplate.toString();
+		const describe = (resource: string): PaidTarget => ({
+			name,
+			description:
+				typeof metadata.description === "string" ? metadata.description : name,
+			resource: resource as Resource,
+			// Labelled by the template, not each URI read through it.
+			resourceLabel: uri,
+			input: { method: "resources/read", uri: resource },
+		});
+
+		const pricing = {
+			...createPricingEntry(describe(uri), options, config),
+			uri,
+		};
+		catalog.resources.push(pricing);
+
+		const metadataWithPricing: ResourceMetadata = {
+			...metadata,
+			_meta: {
+				...(metadata._meta as Record<string, unknown> | undefined),
+				[PRICING_META_KEY]: {
+					x402Version: X402_VERSION,
+					price: pricing.price,
+					network: pricing.network,
+					payTo: pricing.payTo,
+					accepts: pricing.accepts,
+				},
+			},
+		};
+
+		if (typeof uriOrTemplate === "string") {
+			const read = readCallback as ReadResourceCallback;
+			return server.registerResource(
+				name,
+				uriOrTemplate,
+				metadataWithPricing,
+				(requestUri, extra) =>
+					runPaidRequest(
+						engine,
+						"resources/read",
+						createPaidRequest(
+							describe(requestUri.href),
+							options.price,
+							options,
+							config,
+							getRequestIp(extra),
+						),
+						extra._meta?.["x402/payment"],
+						() => read(requestUri, extra),
+						makeResourceFailureResult(requestUri),
+					),
+			);
+		}
+
+		const read = readCallback as ReadResourceTemplateCallback;
+		return server.registerResource(
+			name,
+			uriOrTemplate,
+			metadataWithPricing,
+			(requestUri, variables, extra) =>
+				runPaidRequest(
+					engine,
+					"resources/read",
+					createPaidRequest(
+						describe(requestUri.href),
+						options.price,
+						options,
+						config,
+						getRequestIp(extra),
+					),
+					extra._meta?.["x402/payment"],
+					() => read(requestUri, variables, extra),
+					makeResourceFailureResult(requestUri),
+				),
+		);
+	};
+
+	return paidResource as PaymentMcpServer["paidResource"];
+}
+
+function createPaidPromptMethod(
+	server: McpServer,
+	config: ServerPaymentConfig,
+	engine: PaymentEngine,
+	catalog: PricingCatalog,
+): PaymentMcpServer["paidPrompt"] {
+	// Implemented over the base shape, as `paidTool` is.
+	const paidPrompt = (
+		name: string,
+		description: string,
+		options: FixedPaymentOptions,
+		argsSchema: PromptArgsRawShape,
+		cb: PromptCallback<PromptArgsRawShape>,
+	) => {
+		const target: PaidTarget = {
+			name,
+			description,
+			resource: `mcp://prompt/${name}`,
+			input: { method: "prompts/get", prompt: name },
+		};
+		catalog.prompts.push(createPricingEntry(target, options, config));
+
+		const cbWithPayment: PromptCallback<PromptArgsRawShape> = (args, extra) =>
+			runPaidRequest(
+				engine,
+				"prompts/get",
+				createPaidRequest(
+					target,
+					options.price,
+					options,
+					config,
+					getRequestIp(extra),
+				),
+				extra._meta?.["x402/payment"],
+				() => cb(args, extra),
+				makePromptFailureResult,
+			);
+
+		return server.registerPrompt(
+			name,
+			{ description, argsSchema },
+			cbWithPayment,
+		);
+	};
+
+	return paidPrompt as PaymentMcpServer["paidPrompt"];
+}
+
+type InitializePaidServer =
+	| ((server: PaymentMcpServer) => Promise<void>)
+	| ((server: PaymentMcpServer) => void);
+
+function createMcpPaymentEngine(config: ServerPaymentConfig) {
+	return createPaymentEngine({
+		transport: "mcp",
+		facilitator: config.facilitator,
+		nonceStore: config.nonceStore,
+		ledger: config.ledger,
+		settlementQueue: config.settlementQueue,
+		payerPolicy: config.payerPolicy,
+	});
+}
+
+/** Runs `initializeServer` with the paid methods and returns what it sells. */
+async function initializePaidServer(
+	server: McpServer,
+	initializeServer: InitializePaidServer,
+	config: ServerPaymentConfig,
+	engine: PaymentEngine,
+) {
+	const catalog: PricingCatalog = { tools: [], resources: [], prompts: [] };
+	const quotableTools = new Map<string, QuotableTool>();
+	const paymentMethods: PaymentServerMethods = {
+		paidTool: createPaidToolMethod(
+			server,
+			config,
+			engine,
+			catalog,
+			quotableTools,
+		),
+		paidResource: createPaidResourceMethod(server, config, engine, catalog),
+		paidPrompt: createPaidPromptMethod(server, config, engine, catalog),
+	};
+	const extendedServer = new Proxy(server as unknown as PaymentMcpServer, {
+		get(target, prop, receiver) {
+			if (prop in paymentMethods) {
+				return paymentMethods[prop as keyof PaymentServerMethods];
+			}
+			return Reflect.get(target, prop, receiver);
+		},
+	}) as PaymentMcpServer;
+
+	await initializeServer(extendedServer);
+
+	if (
+		catalog.tools.length + catalog.resources.length + catalog.prompts.length >
+		0
+	) {
+		registerListPricingTool(server, catalog);
+	}
+	if (quotableTools.size > 0) {
+		registerQuoteTool(server, quotableTools, config);
+	}
+
+	return catalog;
 }
 
 export function createPaidMcpHandler(
-	initializeServer:
-		| ((server: PaymentMcpServer) => Promise<void>)
-		| ((server: PaymentMcpServer) => void),
+	initializeServer: InitializePaidServer,
 	serverOptions: ServerOptions,
 	config: ConfigWithPayment,
 ): (request: Request) => Promise<Response> {
+	const engine = createMcpPaymentEngine(config);
+
 	// Create the base paid handler
 	const paidHandler = createMcpHandler(
 		// Wrap the initialization to use ExtendedMcpServer
 		async (server) => {
-			const extendedServer = new Proxy(server as unknown as PaymentMcpServer, {
-				get(target, prop, receiver) {
-					if (prop === "paidTool") {
-						return createPaidToolMethod(target, config);
-					}
-					return Reflect.get(target, prop, receiver);
-				},
-			}) as PaymentMcpServer;
-
-			await initializeServer(extendedServer);
+			await initializePaidServer(server, initializeServer, config, engine);
 		},
 		serverOptions,
 		config,
@@ -258,3 +832,47 @@ export function createPaidMcpHandler(
 
 	return paidHandler;
 }
+
+export interface PaidMcpDescription {
+	catalog: PricingCatalog;
+	/** `tools/list` entries of the paid tools, with their JSON schemas. */
+	tools: Tool[];
+}
+
+/**
+ * Builds the server `createPaidMcpHandler` serves, outside of any request,
+ * and reports what it sells. Tools are listed through an in-memory client so
+ * their schemas are exactly what `tools/list` returns.
+ */
+export async function describePaidMcpServer(
+	initializeServer: InitializePaidServer,
+	serverOptions: ServerOptions,
+	config: ServerPaymentConfig,
+): Promise<PaidMcpDescription> {
+	const server = new McpServer(
+		serverOptions.serverInfo ?? { name: "x402-mcp", version: "0.0.0" },
+		serverOptions,
+	);
+	const catalog = await initializePaidServer(
+		server,
+		initializeServer,
+		config,
+		createMcpPaymentEngine(config),
+	);
+
+	const [clientTransport, serverTransport] =
+		InMemoryTransport.createLinkedPair();
+	const client = new Client({ name: "x402-discovery", version: "0.0.0" });
+	await server.connect(serverTransport);
+	await client.connect(clientTransport);
+	try {
+		const { tools } = await client.listTools();
+		return {
+			catalog,
+			tools: tools.filter((tool) => tool._meta?.[PRICING_META_KEY]),
+		};
+	} finally {
+		await client.close();
+		await server.close();
+	}
+}
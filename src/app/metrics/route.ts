@@ -0,0 +1,23 @@
+import type { NextRequest } from "next/server";
+import { isAuthorizedApiKey } from "@/lib/api-key";
+import { env } from "@/lib/env";
+import { metrics } from "@/lib/metrics";
+
+export const runtime = "nodejs";
+
+/** Prometheus scrape endpoint, behind `METRICS_API_KEY` when it is set. */
+export function GET(request: NextRequest) {
+	if (
+		env.METRICS_API_KEY &&
+		!isAuthorizedApiKey(request, env.METRICS_API_KEY)
+	) {
+		return new Response(JSON.stringify({ error: "Unauthorized" }), {
+			status: 401,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+
+	return new Response(metrics.render(), {
+		headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+	});
+}
@@ -1,5 +1,6 @@
 import type { NextRequest } from "next/server";
 import { createCorsPreflightResponse } from "@/lib/cors";
+import { withRequestId } from "@/lib/logger";
 import { forwardOpenRouter } from "../proxy-handler";
 
 type RouteContext = {
@@ -14,12 +15,15 @@ export function OPTIONS(request: NextRequest) {
 	return createCorsPreflightResponse(request);
 }
 
-export async function GET(request: NextRequest, context: RouteContext) {
+async function forward(request: NextRequest, context: RouteContext) {
 	const params = await context.params;
 	return forwardOpenRouter(request, params.path ?? []);
 }
 
-export async function POST(request: NextRequest, context: RouteContext) {
-	const params = await context.params;
-	return forwardOpenRouter(request, params.path ?? []);
+export function GET(request: NextRequest, context: RouteContext) {
+	return withRequestId(request, () => forward(request, context));
+}
+
+export function POST(request: NextRequest, context: RouteContext) {
+	return withRequestId(request, () => forward(request, context));
 }
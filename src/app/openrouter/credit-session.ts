@@ -0,0 +1,229 @@
+import type { Network } from "x402/types";
+import {
+	type CreditSession,
+	creditSessionStore,
+	verifyCreditSessionToken,
+} from "@/lib/credit-sessions";
+import { env } from "@/lib/env";
+import { createLogger } from "@/lib/logger";
+import { type RateLimitTarget, rateLimiter } from "@/lib/rate-limiter";
+import { jsonResponse } from "@/lib/utils";
+import { resolvePaymentConfig } from "./payment-config";
+import type {
+	EnsurePaymentConfig,
+	PaymentFailureResult,
+	PaymentReceipt,
+	PaymentReceiptResult,
+	PaymentSettlementResult,
+} from "./payment-plugin";
+import { usdToTokenAmount } from "./pricing";
+
+export const X_PAYMENT_SESSION_HEADER = "X-PAYMENT-SESSION";
+const X_PAYMENT_SESSION_BALANCE_HEADER = "X-PAYMENT-SESSION-BALANCE";
+/** Route that opens and tops up credit sessions. */
+export const CREDIT_SESSION_PATH = "/openrouter/session";
+/** USD bounds of a single top-up. */
+export const MIN_TOP_UP_USD = 1;
+export const MAX_TOP_UP_USD = 500;
+
+const log = createLogger("credit-session");
+
+export interface CreditSessionSettlementOptions {
+	/** Atomic amount the call actually cost; the rest of the hold is returned. */
+	amount?: string;
+}
+
+export interface CreditSessionPayment {
+	ok: true;
+	session: CreditSession;
+	network: Network;
+	settle(
+		response: Response,
+		options?: CreditSessionSettlementOptions,
+	): Promise<PaymentSettlementResult>;
+	settleReceipt(
+		options?: CreditSessionSettlementOptions,
+	): Promise<PaymentReceiptResult>;
+	/** Refunds the whole hold when the request ends without settling. */
+	release(reason: string): Promise<void>;
+}
+
+export type CreditSessionResult = PaymentFailureResult | CreditSessionPayment;
+
+/**
+ * Payment config for a top-up of `amountUsd`, onto `existing` or a new
+ * session. Top-ups stay on the session's network so the balance has a
+ * single asset.
+ */
+export function resolveTopUpPaymentConfig(
+	amountUsd: number,
+	existing?: CreditSession,
+): EnsurePaymentConfig {
+	const price = `$${amountUsd}`;
+	return resolvePaymentConfig({
+		price,
+		network: existing?.network ?? env.NETWORK,
+		accepts: existing
+			? []
+			: env.ADDITIONAL_NETWORKS.map((network) => ({ network, price })),
+		subject: "credit-session",
+		resourceLabel: CREDIT_SESSION_PATH,
+		// Credit is only granted for funds that have actually moved.
+		settleInline: true,
+		config: {
+			description: `OpenRouter proxy credit (${price})`,
+			inputSchema: {
+				bodyType: "json",
+				bodyFields: {
+					amount: {
+						type: "number",
+						minimum: MIN_TOP_UP_USD,
+						maximum: MAX_TOP_UP_USD,
+						description: "USD to add to the session",
+					},
+				},
+			},
+		},
+	});
+}
+
+/** Resolves a live session from an `X-PAYMENT-SESSION` token. */
+export async function resolveCreditSession(token: string) {
+	const sessionId = verifyCreditSessionToken(token);
+	return sessionId ? creditSessionStore.get(sessionId) : undefined;
+}
+
+/**
+ * Places a hold for `priceUsd` on the session behind `token`. Settling
+ * returns whatever the call did not use; releasing returns the whole hold.
+ * Mirrors the `ensurePayment` result so the proxy can treat both alike,
+ * including the per-payer `rateLimit`.
+ */
+export async function authorizeCreditSession(
+	token: string,
+	priceUsd: number,
+	rateLimit?: RateLimitTarget,
+): Promise<CreditSessionResult> {
+	const session = await resolveCreditSession(token);
+	if (!session) {
+		return {
+			ok: false,
+			response: jsonResponse(
+				{ error: "Credit session is invalid or has expired" },
+				401,
+			),
+		};
+	}
+
+	const hold = BigInt(usdToTokenAmount(priceUsd, session.network).amount);
+	const limited = rateLimit
+		? rateLimiter.acquire({
+				...rateLimit,
+				payer: session.payer ?? `session:${session.id}`,
+				amount: hold,
+			})
+		: undefined;
+	if (limited && !limited.ok) {
+		return {
+			ok: false,
+			response: jsonResponse({ error: limited.error }, 429, {
+				"Retry-After": String(limited.retryAfter),
+			}),
+		};
+	}
+	const lease = limited?.lease;
+
+	if (!(await creditSessionStore.debit(session.id, hold))) {
+		lease?.release();
+		return {
+			ok: false,
+			response: jsonResponse(
+				{
+					error: "Insufficient credit session balance",
+					balance: session.balance,
+					required: hold.toString(),
+				},
+				402,
+			),
+		};
+	}
+
+	let finished = false;
+
+	const release = async (reason: string) => {
+		if (finished) {
+			return;
+		}
+		finished = true;
+		lease?.release();
+		await creditSessionStore.credit(session.id, hold);
+
+		log.info("Released session hold", {
+			sessionId: session.id,
+			amount: hold.toString(),
+			reason,
+		});
+	};
+
+	const settleReceipt = async (
+		options: CreditSessionSettlementOptions = {},
+	): Promise<PaymentReceiptResult> => {
+		if (finished) {
+			return { ok: true };
+		}
+		finished = true;
+
+		const owed =
+			options.amount !== undefined && BigInt(options.amount) < hold
+				? BigInt(options.amount)
+				: hold;
+		lease?.commit(owed);
+		await creditSessionStore.credit(session.id, hold - owed);
+
+		log.info("Debited session", {
+			sessionId: session.id,
+			amount: owed.toString(),
+			asset: session.asset,
+		});
+
+		return {
+			ok: true,
+			receipt: {
+				success: true,
+				transaction: `session:${session.id}`,
+				network: session.network,
+				payer: session.payer,
+				amount: owed.toString(),
+			},
+		};
+	};
+
+	const settle = async (
+		response: Response,
+		options: CreditSessionSettlementOptions = {},
+	): Promise<PaymentSettlementResult> => {
+		let receipt: PaymentReceipt | undefined;
+		if (response.status >= 400) {
+			await release(`Responded with status ${response.status}`);
+		} else {
+			const result = await settleReceipt(options);
+			receipt = result.ok ? result.receipt : undefined;
+		}
+
+		const current = await creditSessionStore.get(session.id);
+		if (current) {
+			response.headers.set(X_PAYMENT_SESSION_BALANCE_HEADER, current.balance);
+		}
+
+		return { ok: true, response, receipt };
+	};
+
+	return {
+		ok: true,
+		session,
+		network: session.network,
+		settle,
+		settleReceipt,
+		release,
+	};
+}
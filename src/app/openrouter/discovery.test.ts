@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { describePaidRoutes } from "./discovery";
+
+describe("describePaidRoutes", () => {
+	it("lists the credit session top-up next to the upstream routes", () => {
+		const entries = describePaidRoutes("https://proxy.test");
+
+		expect(entries).toContainEqual(
+			expect.objectContaining({
+				resource: "https://proxy.test/openrouter/session",
+				method: "POST",
+				price: "dynamic",
+			}),
+		);
+		const topUp = entries.find((entry) =>
+			entry.resource.endsWith("/openrouter/session"),
+		);
+		expect(topUp?.accepts).not.toHaveLength(0);
+		expect(topUp?.accepts[0]).not.toHaveProperty("maxAmountRequired");
+	});
+});
@@ -0,0 +1,106 @@
+import type { Resource } from "x402/types";
+import type { DiscoveryEntry } from "@/lib/discovery";
+import { createPaymentRequirements } from "@/lib/payment-engine";
+import {
+	CREDIT_SESSION_PATH,
+	MIN_TOP_UP_USD,
+	resolveTopUpPaymentConfig,
+} from "./credit-session";
+import { resolvePaymentConfig } from "./payment-config";
+import { createHttpPaymentRequest } from "./payment-plugin";
+import { resolveRoutePaymentOverrides } from "./proxy-handler";
+import { UPSTREAMS, type UpstreamConfig } from "./upstreams";
+
+/** Methods the catch-all proxy route answers. */
+const PROXY_METHODS = ["GET", "POST"];
+
+function describeUpstream(
+	baseUrl: string,
+	upstream: UpstreamConfig,
+): DiscoveryEntry[] {
+	return upstream.pricing.flatMap((rule) => {
+		if (rule.price !== "metered" && typeof rule.price !== "number") {
+			return [];
+		}
+		const price = rule.price;
+
+		const resource =
+			`${baseUrl}${upstream.mountPath}${rule.pattern}` as Resource;
+		const paymentConfig = resolvePaymentConfig(
+			resolveRoutePaymentOverrides(upstream, rule, undefined, rule.pattern),
+		);
+
+		return (rule.methods ?? PROXY_METHODS).map((method) => {
+			const request = createHttpPaymentRequest(paymentConfig, {
+				resource,
+				method,
+			});
+			const requirements = createPaymentRequirements(request);
+			if (!Array.isArray(requirements)) {
+				throw new Error(
+					`Cannot describe ${method} ${rule.pattern}: ${requirements.error}`,
+				);
+			}
+
+			return {
+				type: "http",
+				resource,
+				method,
+				description: request.description ?? "",
+				price,
+				accepts:
+					price === "metered"
+						? requirements.map(
+								({ maxAmountRequired: _amount, ...requirement }) => requirement,
+							)
+						: requirements,
+				inputSchema: request.outputSchema?.input,
+				outputSchema: request.outputSchema?.output,
+			} satisfies DiscoveryEntry;
+		});
+	});
+}
+
+/** The credit session top-up, whose amount the payer picks in the body. */
+function describeCreditSession(baseUrl: string): DiscoveryEntry {
+	const resource = `${baseUrl}${CREDIT_SESSION_PATH}` as Resource;
+	const request = createHttpPaymentRequest(
+		resolveTopUpPaymentConfig(MIN_TOP_UP_USD),
+		{ resource, method: "POST" },
+	);
+	const requirements = createPaymentRequirements(request);
+	if (!Array.isArray(requirements)) {
+		throw new Error(
+			`Cannot describe POST ${CREDIT_SESSION_PATH}: ${requirements.error}`,
+		);
+	}
+
+	return {
+		type: "http",
+		resource,
+		method: "POST",
+		description: "OpenRouter proxy credit",
+		price: "dynamic",
+		accepts: requirements.map(
+			({ maxAmountRequired: _amount, ...requirement }) => requirement,
+		),
+		inputSchema: request.outputSchema?.input,
+		outputSchema: request.outputSchema?.output,
+	};
+}
+
+/**
+ * Lists the paid routes of every upstream under `baseUrl`, built with the
+ * same payment config `forwardUpstream` uses, and the credit session
+ * top-up. Metered and top-up routes are priced per request, so their
+ * options carry no amount.
+ */
+export function describePaidRoutes(
+	baseUrl: string,
+	upstreams: UpstreamConfig[] = UPSTREAMS,
+): DiscoveryEntry[] {
+	return [
+		...upstreams.flatMap((upstream) => describeUpstream(baseUrl, upstream)),
+		describeCreditSession(baseUrl),
+	];
+}
@@ -0,0 +1,42 @@
+import { privateKeyToAccount } from "viem/accounts";
+import { env } from "@/lib/env";
+import {
+	createPaymentPlugin,
+	type EnsurePaymentConfig,
+} from "./payment-plugin";
+
+export const DEFAULT_PRICE_USD = 0.01;
+export const DEFAULT_PRICE = `$${DEFAULT_PRICE_USD}`;
+
+const serviceAccount = privateKeyToAccount(
+	env.SERVICE_PRIVATE_KEY as `0x${string}`,
+);
+
+export const paymentPlugin = createPaymentPlugin();
+
+const defaultPaymentConfig: EnsurePaymentConfig = {
+	payTo: serviceAccount.address,
+	price: DEFAULT_PRICE,
+	network: env.NETWORK,
+	accepts: env.ADDITIONAL_NETWORKS.map((network) => ({
+		network,
+		price: DEFAULT_PRICE,
+	})),
+	config: {
+		description: "Access to OpenRouter proxy",
+		mimeType: "application/json",
+	},
+};
+
+export function resolvePaymentConfig(
+	overrides: Partial<EnsurePaymentConfig> = {},
+): EnsurePaymentConfig {
+	return {
+		...defaultPaymentConfig,
+		...overrides,
+		config: {
+			...defaultPaymentConfig.config,
+			...overrides.config,
+		},
+	} as EnsurePaymentConfig;
+}
@@ -1,37 +1,63 @@
-import { type Address, getAddress } from "viem";
-import { exact } from "x402/schemes";
-import {
-	findMatchingPaymentRequirements,
-	processPriceToAtomicAmount,
-	safeBase64Encode,
-	toJsonSafe,
-} from "x402/shared";
-import {
-	type ERC20TokenAmount,
-	type FacilitatorConfig,
-	type PaymentMiddlewareConfig,
-	type PaymentPayload,
-	type PaymentRequirements,
-	type Resource,
-	type RouteConfig,
-	SupportedEVMNetworks,
+import type { Address } from "viem";
+import { safeBase64Encode } from "x402/shared";
+import type {
+	FacilitatorConfig,
+	PaymentMiddlewareConfig,
+	PaymentPayload,
+	PaymentRequirements,
+	Resource,
+	RouteConfig,
 } from "x402/types";
-import { useFacilitator } from "x402/verify";
+import {
+	createPaymentEngine,
+	type PaymentFailure,
+	type PaymentOption,
+	type PaymentReceipt,
+	type PaymentReceiptResult,
+	type PaymentRequestConfig,
+	X402_VERSION,
+} from "@/lib/payment-engine";
+import type { PayerPolicy } from "@/lib/payer-policy";
+import type { PaymentLedger } from "@/lib/payment-ledger";
+import type { PaymentNonceStore } from "@/lib/payment-nonce-store";
+import { getClientIp, type RateLimitTarget } from "@/lib/rate-limiter";
+import { JSON_CONTENT_TYPE } from "@/lib/utils";
 
 const X_PAYMENT_HEADER = "X-PAYMENT";
 const X_PAYMENT_RESPONSE_HEADER = "X-PAYMENT-RESPONSE";
-const JSON_CONTENT_TYPE = { "Content-Type": "application/json" };
-const X402_VERSION = 1;
 
 export interface PaymentPluginOptions {
 	facilitator?: FacilitatorConfig;
+	/** Defaults to the process-wide store shared with the MCP server. */
+	nonceStore?: PaymentNonceStore;
+	ledger?: PaymentLedger;
+	/** Who may pay; defaults to the lists from the environment. */
+	payerPolicy?: PayerPolicy;
 }
 
 export interface EnsurePaymentConfig
 	extends Pick<RouteConfig, "price" | "network" | "config"> {
 	payTo: Address;
+	/**
+	 * Extra networks/assets offered next to the primary `price` and
+	 * `network`. Every option is listed in the 402 `accepts`.
+	 */
+	accepts?: PaymentOption[];
 	resource?: Resource;
 	method?: string;
+	/** Model or tool name recorded alongside the payment in the ledger. */
+	subject?: string;
+	/** Route template labelling the resource in metrics. */
+	resourceLabel?: string;
+	/** Settles before responding, even with `SETTLEMENT_MODE=queued`. */
+	settleInline?: boolean;
+	/** Per-payer limits; the client IP is taken from the request. */
+	rateLimit?: Omit<RateLimitTarget, "ip">;
+	/**
+	 * USD charged instead of `price` (on every offered network) when the
+	 * proxy answers from its response cache.
+	 */
+	cacheHitPriceUsd?: number;
 }
 
 export interface PaymentFailureResult {
@@ -42,6 +68,11 @@ export interface PaymentFailureResult {
 export interface PaymentSettlementSuccess {
 	ok: true;
 	response: Response;
+	/**
+	 * Absent when nothing was collected, e.g. for an error response or a
+	 * failed settlement.
+	 */
+	receipt?: PaymentReceipt;
 }
 
 export interface PaymentSettlementFailure {
@@ -57,19 +88,52 @@ export interface PaymentSuccessResult {
 	ok: true;
 	payment: PaymentPayload;
 	requirements: PaymentRequirements;
+	/**
+	 * Settles the full signed amount: an `exact` payment can't transfer
+	 * less, whatever the call ended up costing.
+	 */
 	settle(response: Response): Promise<PaymentSettlementResult>;
+	/**
+	 * Settles without touching a response, for transports that deliver the
+	 * receipt after the headers have been sent (e.g. a final SSE event).
+	 */
+	settleReceipt(): Promise<PaymentReceiptResult>;
+	/** Frees the payload for reuse when the request ends without settling. */
+	release(reason: string): Promise<void>;
 }
 
 export type EnsurePaymentResult = PaymentFailureResult | PaymentSuccessResult;
 
-function createPaymentRequirements(
-	request: Request,
+function buildPaymentFailureResponse(failure: PaymentFailure) {
+	const headers: Record<string, string> = { ...JSON_CONTENT_TYPE };
+	if (failure.retryAfter !== undefined) {
+		headers["Retry-After"] = String(failure.retryAfter);
+	}
+
+	return new Response(
+		JSON.stringify({
+			x402Version: X402_VERSION,
+			error: failure.error,
+			accepts: failure.accepts,
+			payer: failure.payer,
+		}),
+		{
+			status: failure.status,
+			headers,
+		},
+	);
+}
+
+/**
+ * The engine request behind `ensurePayment`, also used to describe paid
+ * routes without a request. `defaults` apply when the config names no
+ * resource or method.
+ */
+export function createHttpPaymentRequest(
 	config: EnsurePaymentConfig,
-): PaymentFailureResult | PaymentRequirements {
-	const requirementConfig = (config.config ?? {}) as
-		| PaymentMiddlewareConfig
-		| undefined;
-	const { price, network, payTo, resource } = config;
+	defaults: { resource: Resource; method: string },
+): PaymentRequestConfig {
+	const requirementConfig: PaymentMiddlewareConfig = config.config ?? {};
 	const {
 		description,
 		mimeType,
@@ -78,210 +142,97 @@ function createPaymentRequirements(
 		outputSchema,
 		errorMessages,
 		discoverable,
-	} = requirementConfig ?? {};
-	const method = config.method ?? request.method.toUpperCase();
-
-	const atomicAmountForAsset = processPriceToAtomicAmount(price, network);
-	if ("error" in atomicAmountForAsset) {
-		return {
-			ok: false,
-			response: new Response(
-				JSON.stringify({
-					x402Version: X402_VERSION,
-					error: atomicAmountForAsset.error,
-				}),
-				{
-					status: 500,
-					headers: JSON_CONTENT_TYPE,
-				},
-			),
-		};
-	}
-
-	const { maxAmountRequired, asset } = atomicAmountForAsset;
+	} = requirementConfig;
 
-	const resourceUrl =
-		resource || requirementConfig?.resource || (`${request.url}` as Resource);
-
-	if (!SupportedEVMNetworks.includes(network)) {
-		return {
-			ok: false,
-			response: new Response(
-				JSON.stringify({
-					x402Version: X402_VERSION,
-					error: `Unsupported network: ${network}`,
-				}),
-				{
-					status: 500,
-					headers: JSON_CONTENT_TYPE,
-				},
-			),
-		};
-	}
-
-	const requirement: PaymentRequirements = {
-		scheme: "exact",
-		network,
-		maxAmountRequired,
-		resource: resourceUrl,
-		description: description ?? "",
-		mimeType: mimeType ?? "application/json",
-		payTo: getAddress(payTo),
-		maxTimeoutSeconds: maxTimeoutSeconds ?? 300,
-		asset: getAddress(asset.address),
+	return {
+		price: config.price,
+		network: config.network,
+		payTo: config.payTo,
+		accepts: config.accepts,
+		resource:
+			config.resource || requirementConfig.resource || defaults.resource,
+		description,
+		mimeType,
+		maxTimeoutSeconds,
 		outputSchema: {
 			input: {
 				type: "http",
-				method,
+				method: config.method ?? defaults.method,
 				discoverable: discoverable ?? true,
 				...inputSchema,
 			},
 			output: outputSchema,
 		},
-		extra: (asset as ERC20TokenAmount["asset"]).eip712,
-	};
-
-	return requirement;
-}
-
-function buildPaymentRequiredResponse(
-	error: string,
-	accepts: unknown,
-	additional?: Record<string, unknown>,
-) {
-	return new Response(
-		JSON.stringify({
-			x402Version: X402_VERSION,
-			error,
-			accepts,
-			...additional,
-		}),
-		{
-			status: 402,
-			headers: JSON_CONTENT_TYPE,
+		errorMessages: {
+			paymentRequired: `${X_PAYMENT_HEADER} header is required`,
+			...errorMessages,
 		},
-	);
+		subject: config.subject,
+		resourceLabel: config.resourceLabel,
+		settleInline: config.settleInline,
+	};
 }
 
 export function createPaymentPlugin(options: PaymentPluginOptions = {}) {
-	const { facilitator } = options;
-	const { verify, settle } = useFacilitator(facilitator);
+	const engine = createPaymentEngine({ ...options, transport: "http" });
 
 	const ensurePayment = async (
 		request: Request,
 		config: EnsurePaymentConfig,
 	): Promise<EnsurePaymentResult> => {
-		const requirementOrFailure = createPaymentRequirements(request, config);
-		if (!("scheme" in requirementOrFailure)) {
-			return requirementOrFailure;
-		}
-
-		const paymentRequirements = [requirementOrFailure];
-		const { config: requirementConfig } = config;
-		const errorMessages: NonNullable<PaymentMiddlewareConfig["errorMessages"]> =
-			requirementConfig?.errorMessages ?? {};
-
-		const paymentHeader = request.headers.get(X_PAYMENT_HEADER);
-		if (!paymentHeader) {
-			return {
-				ok: false,
-				response: buildPaymentRequiredResponse(
-					errorMessages?.paymentRequired ||
-						`${X_PAYMENT_HEADER} header is required`,
-					paymentRequirements,
-				),
-			};
-		}
-
-		let decodedPayment: PaymentPayload;
-		try {
-			decodedPayment = exact.evm.decodePayment(paymentHeader);
-			decodedPayment.x402Version = X402_VERSION;
-		} catch (error) {
-			return {
-				ok: false,
-				response: buildPaymentRequiredResponse(
-					errorMessages?.invalidPayment ||
-						(error instanceof Error ? error.message : "Invalid payment"),
-					paymentRequirements,
-				),
-			};
-		}
-
-		const selectedRequirement = findMatchingPaymentRequirements(
-			paymentRequirements,
-			decodedPayment,
+		const paymentRequest = createHttpPaymentRequest(config, {
+			resource: `${request.url}` as Resource,
+			method: request.method.toUpperCase(),
+		});
+
+		const result = await engine.processPayment(
+			{
+				...paymentRequest,
+				rateLimit: config.rateLimit && {
+					...config.rateLimit,
+					ip: getClientIp(request.headers),
+				},
+			},
+			request.headers.get(X_PAYMENT_HEADER) ?? undefined,
 		);
 
-		if (!selectedRequirement) {
-			return {
-				ok: false,
-				response: buildPaymentRequiredResponse(
-					errorMessages?.noMatchingRequirements ||
-						"Unable to find matching payment requirements",
-					toJsonSafe(paymentRequirements),
-				),
-			};
-		}
-
-		const verification = await verify(decodedPayment, selectedRequirement);
-		if (!verification.isValid) {
-			return {
-				ok: false,
-				response: buildPaymentRequiredResponse(
-					errorMessages?.verificationFailed ||
-						verification.invalidReason ||
-						"Payment verification failed",
-					paymentRequirements,
-					{
-						payer: verification.payer,
-					},
-				),
-			};
+		if (!result.ok) {
+			return { ok: false, response: buildPaymentFailureResponse(result) };
 		}
 
 		const settlePayment = async (
 			response: Response,
 		): Promise<PaymentSettlementResult> => {
 			if (response.status >= 400) {
+				await result.release(`Responded with status ${response.status}`);
 				return { ok: true, response };
 			}
 
-			try {
-				const settlement = await settle(decodedPayment, selectedRequirement);
-
-				if (settlement.success) {
-					response.headers.set(
-						X_PAYMENT_RESPONSE_HEADER,
-						safeBase64Encode(
-							JSON.stringify({
-								success: true,
-								transaction: settlement.transaction,
-								network: settlement.network,
-								payer: settlement.payer,
-							}),
-						),
-					);
-				}
-
-				return { ok: true, response };
-			} catch (error) {
+			const settlement = await result.settle();
+			if (!settlement.ok) {
 				return {
 					ok: false,
-					response: buildPaymentRequiredResponse(
-						errorMessages?.settlementFailed ||
-							(error instanceof Error ? error.message : "Settlement failed"),
-						paymentRequirements,
-					),
+					response: buildPaymentFailureResponse(settlement),
 				};
 			}
+
+			if (settlement.receipt) {
+				response.headers.set(
+					X_PAYMENT_RESPONSE_HEADER,
+					safeBase64Encode(JSON.stringify(settlement.receipt)),
+				);
+			}
+
+			return { ok: true, response, receipt: settlement.receipt };
 		};
 
 		return {
 			ok: true,
-			payment: decodedPayment,
-			requirements: selectedRequirement,
+			payment: result.payment,
+			requirements: result.requirements,
 			settle: settlePayment,
+			settleReceipt: result.settle,
+			release: result.release,
 		};
 	};
 
@@ -290,6 +241,11 @@ export function createPaymentPlugin(options: PaymentPluginOptions = {}) {
 	};
 }
 
+export type {
+	PaymentOption,
+	PaymentReceipt,
+	PaymentReceiptResult,
+} from "@/lib/payment-engine";
 export type {
 	PaymentMiddlewareConfig,
 	PaymentPayload,
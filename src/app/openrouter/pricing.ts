@@ -0,0 +1,156 @@
+import { getDefaultAsset } from "x402/shared";
+import type { ERC20TokenAmount, Network } from "x402/types";
+import type { CompletionUsage } from "./usage";
+
+/** USD charged per million tokens. */
+export interface ModelRate {
+	prompt: number;
+	completion: number;
+}
+
+export interface ChatCompletionQuote {
+	model: string;
+	promptTokens: number;
+	maxTokens: number;
+	priceUsd: number;
+}
+
+const MODEL_RATES: Record<string, ModelRate> = {
+	"openai/gpt-4o": { prompt: 2.5, completion: 10 },
+	"openai/gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+	"openai/gpt-4.1": { prompt: 2, completion: 8 },
+	"openai/gpt-4.1-mini": { prompt: 0.4, completion: 1.6 },
+	"openai/o3": { prompt: 2, completion: 8 },
+	"anthropic/claude-sonnet-4": { prompt: 3, completion: 15 },
+	"anthropic/claude-3.5-haiku": { prompt: 0.8, completion: 4 },
+	"anthropic/claude-opus-4": { prompt: 15, completion: 75 },
+	"google/gemini-2.5-pro": { prompt: 1.25, completion: 10 },
+	"google/gemini-2.5-flash": { prompt: 0.3, completion: 2.5 },
+	"meta-llama/llama-3.1-8b-instruct": { prompt: 0.02, completion: 0.05 },
+	"meta-llama/llama-3.3-70b-instruct": { prompt: 0.13, completion: 0.4 },
+	"deepseek/deepseek-chat": { prompt: 0.3, completion: 0.85 },
+};
+
+// Unknown models are priced at the top of the table so we never sell below cost.
+const FALLBACK_RATE: ModelRate = { prompt: 15, completion: 75 };
+const FALLBACK_MODEL = "openrouter/auto";
+const DEFAULT_MAX_TOKENS = 1024;
+const MIN_PRICE_USD = 0.001;
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function getModelRate(model: string): ModelRate {
+	return MODEL_RATES[model] ?? FALLBACK_RATE;
+}
+
+function countTextTokens(text: string) {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function estimateContentTokens(content: unknown): number {
+	if (typeof content === "string") {
+		return countTextTokens(content);
+	}
+
+	if (Array.isArray(content)) {
+		return content.reduce<number>((total, part) => {
+			if (part && typeof part === "object" && "text" in part) {
+				return total + estimateContentTokens(part.text);
+			}
+			return total;
+		}, 0);
+	}
+
+	return 0;
+}
+
+export function estimatePromptTokens(body: Record<string, unknown>) {
+	let tokens = 0;
+
+	if (Array.isArray(body.messages)) {
+		for (const message of body.messages) {
+			tokens += MESSAGE_OVERHEAD_TOKENS;
+			if (message && typeof message === "object" && "content" in message) {
+				tokens += estimateContentTokens(message.content);
+			}
+		}
+	}
+
+	if (typeof body.prompt === "string") {
+		tokens += countTextTokens(body.prompt);
+	}
+
+	if (Array.isArray(body.tools)) {
+		tokens += countTextTokens(JSON.stringify(body.tools));
+	}
+
+	return tokens;
+}
+
+function resolveMaxTokens(body: Record<string, unknown>) {
+	const requested = body.max_tokens ?? body.max_completion_tokens;
+	if (typeof requested === "number" && Number.isFinite(requested)) {
+		return Math.max(0, Math.ceil(requested));
+	}
+	return DEFAULT_MAX_TOKENS;
+}
+
+export function calculateCostUsd(
+	rate: ModelRate,
+	promptTokens: number,
+	completionTokens: number,
+) {
+	return (
+		(promptTokens * rate.prompt + completionTokens * rate.completion) /
+		1_000_000
+	);
+}
+
+export function quoteChatCompletion(
+	body: Record<string, unknown>,
+): ChatCompletionQuote {
+	const model =
+		typeof body.model === "string" && body.model.length > 0
+			? body.model
+			: FALLBACK_MODEL;
+	const promptTokens = estimatePromptTokens(body);
+	const maxTokens = resolveMaxTokens(body);
+	const cost = calculateCostUsd(getModelRate(model), promptTokens, maxTokens);
+
+	return {
+		model,
+		promptTokens,
+		maxTokens,
+		priceUsd: Math.max(cost, MIN_PRICE_USD),
+	};
+}
+
+/** Prices a finished call from the usage block OpenRouter reported. */
+export function priceUsage(model: string, usage: CompletionUsage) {
+	const cost = calculateCostUsd(
+		getModelRate(model),
+		usage.promptTokens,
+		usage.completionTokens,
+	);
+	return Math.max(cost, MIN_PRICE_USD);
+}
+
+/**
+ * Converts a USD amount into an atomic amount of the network's default
+ * asset (USDC), rounding up so fractional units are never given away.
+ */
+export function usdToTokenAmount(
+	priceUsd: number,
+	network: Network,
+): ERC20TokenAmount {
+	const asset = getDefaultAsset(network) as ERC20TokenAmount["asset"];
+	// toFixed trims float noise (e.g. 1000.0000000000001) before rounding up.
+	const amount = Math.ceil(
+		Number((priceUsd * 10 ** asset.decimals).toFixed(6)),
+	);
+
+	return {
+		amount: amount.toString(),
+		asset,
+	};
+}
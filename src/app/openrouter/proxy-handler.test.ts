@@ -0,0 +1,198 @@
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createPaymentHeader } from "x402/client";
+import type { PaymentRequirements } from "x402/types";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	createCreditSessionId,
+	creditSessionStore,
+	signCreditSessionToken,
+} from "@/lib/credit-sessions";
+import { env } from "@/lib/env";
+import { paymentLedger } from "@/lib/payment-ledger";
+import { createMemoryResponseCacheStore } from "@/lib/response-cache";
+import { X_PAYMENT_SESSION_HEADER } from "./credit-session";
+import { forwardUpstream } from "./proxy-handler";
+import type { UpstreamConfig } from "./upstreams";
+
+/** $0.05, or $0.001 when answered from the cache. */
+function createUpstream(): UpstreamConfig {
+	return {
+		name: "test",
+		label: "Test",
+		mountPath: "/proxy/test",
+		baseUrl: "https://upstream.test",
+		defaultPath: "/v1/run",
+		auth: { type: "none" },
+		pricing: [
+			{
+				pattern: "/v1/run",
+				methods: ["POST"],
+				price: 0.05,
+				cache: {
+					ttlSeconds: 60,
+					hitPriceUsd: 0.001,
+					store: createMemoryResponseCacheStore({
+						maxEntries: 10,
+						maxBytes: 10_000,
+					}),
+				},
+			},
+		],
+	};
+}
+
+function createRequest(headers: Record<string, string> = {}, body = {}) {
+	return new Request("https://proxy.test/proxy/test/v1/run", {
+		method: "POST",
+		headers: { "Content-Type": "application/json", ...headers },
+		body: JSON.stringify({ input: "hello", ...body }),
+	});
+}
+
+function forward(upstream: UpstreamConfig, request: Request) {
+	return forwardUpstream(upstream, request, ["v1", "run"]);
+}
+
+async function getRequirement(upstream: UpstreamConfig, body = {}) {
+	const response = await forward(upstream, createRequest({}, body));
+	expect(response.status).toBe(402);
+	const { accepts } = (await response.json()) as {
+		accepts: PaymentRequirements[];
+	};
+	return accepts[0];
+}
+
+async function signPayment(upstream: UpstreamConfig) {
+	return createPaymentHeader(
+		privateKeyToAccount(generatePrivateKey()),
+		1,
+		await getRequirement(upstream),
+	);
+}
+
+/** An SSE response that sends one event and then waits forever. */
+function stubOpenStream() {
+	vi.stubGlobal(
+		"fetch",
+		vi.fn(
+			async () =>
+				new Response(
+					new ReadableStream({
+						start(controller) {
+							controller.enqueue(new TextEncoder().encode("data: {}\n\n"));
+						},
+					}),
+					{ headers: { "Content-Type": "text/event-stream" } },
+				),
+		),
+	);
+}
+
+function stubJson(body: unknown) {
+	vi.stubGlobal(
+		"fetch",
+		vi.fn(async () => Response.json(body)),
+	);
+}
+
+async function cancelAfterFirstChunk(response: Response) {
+	const reader = response.body?.getReader();
+	await reader?.read();
+	await reader?.cancel();
+}
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe("stream release", () => {
+	it("frees the payment when the client cancels the stream", async () => {
+		const upstream = createUpstream();
+		const payment = await signPayment(upstream);
+		stubOpenStream();
+
+		const response = await forward(
+			upstream,
+			createRequest({ "X-PAYMENT": payment }),
+		);
+		expect(response.status).toBe(200);
+		await cancelAfterFirstChunk(response);
+
+		const [released] = await paymentLedger.query({
+			type: "released",
+			limit: 1,
+		});
+		expect(released).toMatchObject({ error: "Client cancelled the stream" });
+
+		stubJson({ ok: true });
+		const retry = await forward(
+			upstream,
+			createRequest({ "X-PAYMENT": payment }),
+		);
+		expect(retry.status).toBe(200);
+	});
+});
+
+describe("cache hit pricing", () => {
+	it("charges the hit price for a response served from the cache", async () => {
+		const upstream = createUpstream();
+		const deterministic = { temperature: 0 };
+		const requirement = await getRequirement(upstream, deterministic);
+		expect(requirement.maxAmountRequired).toBe("50000");
+
+		stubJson({ ok: true });
+		const payment = await createPaymentHeader(
+			privateKeyToAccount(generatePrivateKey()),
+			1,
+			requirement,
+		);
+		const miss = await forward(
+			upstream,
+			createRequest({ "X-PAYMENT": payment }, deterministic),
+		);
+		expect(miss.headers.get("X-Cache")).toBe("MISS");
+
+		const hit = await forward(upstream, createRequest({}, deterministic));
+		expect(hit.status).toBe(402);
+		expect(hit.headers.get("X-Cache")).toBe("HIT");
+		const { accepts } = (await hit.json()) as {
+			accepts: PaymentRequirements[];
+		};
+		expect(accepts[0].maxAmountRequired).toBe("1000");
+	});
+});
+
+describe("credit session debit", () => {
+	async function openSession(balance: string) {
+		const session = {
+			id: createCreditSessionId(),
+			network: env.NETWORK,
+			asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+			balance,
+			expiresAt: Date.now() + 60_000,
+		};
+		await creditSessionStore.create(session);
+		return { id: session.id, token: signCreditSessionToken(session) };
+	}
+
+	it("debits the route price and refunds a cancelled stream", async () => {
+		const upstream = createUpstream();
+		const { id, token } = await openSession("100000");
+
+		stubJson({ ok: true });
+		const paid = await forward(
+			upstream,
+			createRequest({ [X_PAYMENT_SESSION_HEADER]: token }),
+		);
+		expect(paid.status).toBe(200);
+		expect((await creditSessionStore.get(id))?.balance).toBe("50000");
+
+		stubOpenStream();
+		const streamed = await forward(
+			upstream,
+			createRequest({ [X_PAYMENT_SESSION_HEADER]: token }),
+		);
+		await cancelAfterFirstChunk(streamed);
+		expect((await creditSessionStore.get(id))?.balance).toBe("50000");
+	});
+});
@@ -1,123 +1,901 @@
+import type { Network, Resource } from "x402/types";
 import { applyCorsHeaders } from "@/lib/cors";
 import { env } from "@/lib/env";
+import { createLogger, getRequestId } from "@/lib/logger";
+import { proxyMetrics } from "@/lib/metrics";
+import { createPaymentRequirements, X402_VERSION } from "@/lib/payment-engine";
 import {
-	createPaymentPlugin,
+	createPaymentQuote,
+	type QuotedRequest,
+	resolveQuotedPrice,
+} from "@/lib/payment-quotes";
+import {
+	type CachedResponse,
+	createResponseCacheKey,
+	type ResponseCacheStore,
+	responseCacheStore,
+} from "@/lib/response-cache";
+import { getClientIp } from "@/lib/rate-limiter";
+import { jsonResponse } from "@/lib/utils";
+import {
+	authorizeCreditSession,
+	type CreditSessionPayment,
+	type CreditSessionSettlementOptions,
+	X_PAYMENT_SESSION_HEADER,
+} from "./credit-session";
+import {
+	DEFAULT_PRICE_USD,
+	paymentPlugin,
+	resolvePaymentConfig,
+} from "./payment-config";
+import {
+	createHttpPaymentRequest,
 	type EnsurePaymentConfig,
+	type PaymentFailureResult,
+	type PaymentReceiptResult,
+	type PaymentSettlementResult,
 } from "./payment-plugin";
-import { privateKeyToAccount } from "viem/accounts";
+import {
+	type ChatCompletionQuote,
+	priceUsage,
+	quoteChatCompletion,
+	usdToTokenAmount,
+} from "./pricing";
+import { checkRequestPolicy } from "./request-policy";
+import {
+	type RouteCachePolicy,
+	type RoutePrice,
+	type RoutePricingRule,
+	resolveRoutePricing,
+} from "./route-pricing";
+import { OPENROUTER_UPSTREAM, type UpstreamConfig } from "./upstreams";
+import {
+	type CompletionUsage,
+	createStreamUsageTracker,
+	extractUsage,
+	isEventStream,
+	withUsageAccounting,
+} from "./usage";
 
-const OPENROUTER_BASE_URL = "https://openrouter.ai";
-const DEFAULT_TARGET_PATH = "/api/v1/chat/completions";
-const DEFAULT_PRICE = "$0.01";
+const PAYMENT_RESPONSE_EVENT = "x402-payment-response";
+const PAYMENT_ERROR_EVENT = "x402-payment-error";
 
-const serviceAccount = privateKeyToAccount(
-	env.SERVICE_PRIVATE_KEY as `0x${string}`,
-);
-const paymentPlugin = createPaymentPlugin();
+/**
+ * An x402 payment or a credit session hold, settled the same way. Only a
+ * hold can keep less than it took: an `exact` payment always transfers its
+ * full signed value, so only a `session` is settled on reported usage.
+ */
+type ProxyPayment = Pick<
+	CreditSessionPayment,
+	"ok" | "network" | "settle" | "settleReceipt" | "release"
+> &
+	Partial<Pick<CreditSessionPayment, "session">>;
 
-const defaultPaymentConfig: EnsurePaymentConfig = {
-	payTo: serviceAccount.address,
-	price: DEFAULT_PRICE,
+const FREE_ACCESS: ProxyPayment = {
+	ok: true,
 	network: env.NETWORK,
-	config: {
-		description: "Access to OpenRouter proxy",
-		mimeType: "application/json",
-	},
+	settle: async (response) => ({ ok: true, response }),
+	settleReceipt: async () => ({ ok: true }),
+	release: async () => {},
 };
 
-function resolvePaymentConfig(
-	overrides: Partial<EnsurePaymentConfig> = {},
-): EnsurePaymentConfig {
-	return {
-		...defaultPaymentConfig,
-		...overrides,
-		config: {
-			...defaultPaymentConfig.config,
-			...overrides.config,
-		},
-	} as EnsurePaymentConfig;
+/**
+ * Whether a settlement collected its payment, or none was due. Anything
+ * else (an error response, a failed settlement) must not be cached and
+ * resold.
+ */
+function isSettled(
+	paymentResult: ProxyPayment,
+	result: PaymentReceiptResult | PaymentSettlementResult,
+) {
+	return (
+		result.ok && (paymentResult === FREE_ACCESS || result.receipt !== undefined)
+	);
+}
+
+/** Headers that only mean something to this proxy, or to the hop. */
+const LOCAL_HEADERS = [
+	"host",
+	"content-length",
+	"x-payment",
+	"x-payment-quote",
+	X_PAYMENT_SESSION_HEADER.toLowerCase(),
+];
+
+function getLogger(upstream: UpstreamConfig) {
+	return createLogger("proxy", { upstream: upstream.name });
 }
 
-function buildForwardHeaders(request: Request) {
+function buildForwardHeaders(request: Request, upstream: UpstreamConfig) {
+	const { allow, deny = [], defaults = {} } = upstream.headers ?? {};
+	const denied = [...LOCAL_HEADERS, ...deny.map((name) => name.toLowerCase())];
+	// The client's own credentials are never passed on when we inject ours.
+	if (upstream.auth.type !== "none") {
+		denied.push("authorization");
+	}
+	const allowed = allow?.map((name) => name.toLowerCase());
+
 	const headers = new Headers();
 	for (const [key, value] of request.headers.entries()) {
-		if (["host", "content-length"].includes(key.toLowerCase())) {
+		const name = key.toLowerCase();
+		if (denied.includes(name) || (allowed && !allowed.includes(name))) {
 			continue;
 		}
 		headers.set(key, value);
 	}
 
-	if (!headers.has("x-title")) {
-		headers.set("x-title", "x402-openrouter-proxy");
+	for (const [name, value] of Object.entries(defaults)) {
+		if (!headers.has(name)) {
+			headers.set(name, value);
+		}
 	}
 
-	headers.set("Authorization", `Bearer ${env.OPENROUTER_API_KEY}`);
+	switch (upstream.auth.type) {
+		case "bearer":
+			headers.set("Authorization", `Bearer ${upstream.auth.token}`);
+			break;
+		case "header":
+			headers.set(upstream.auth.name, upstream.auth.value);
+			break;
+	}
 
 	return headers;
 }
 
-function resolveTargetPath(pathSegments: string[]) {
-	if (pathSegments.length === 0) {
-		return DEFAULT_TARGET_PATH;
+async function readRequestBody(request: Request, method: string) {
+	if (!request.body || method === "GET" || method === "HEAD") {
+		return undefined;
 	}
 
-	const joined = pathSegments.join("/");
-	return joined.startsWith("/") ? joined : `/${joined}`;
+	return request.text();
 }
 
-export async function forwardOpenRouter(
-	request: Request,
-	pathSegments: string[] = [],
-	paymentOverrides: Partial<EnsurePaymentConfig> = {},
+function parseJsonBody(bodyText: string | undefined) {
+	if (!bodyText) {
+		return undefined;
+	}
+
+	try {
+		const parsed: unknown = JSON.parse(bodyText);
+		if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+			return parsed as Record<string, unknown>;
+		}
+	} catch {
+		// Non-JSON bodies are forwarded untouched and charged the default price.
+	}
+
+	return undefined;
+}
+
+function resolveCompletionQuote(
+	upstream: UpstreamConfig,
+	body: Record<string, unknown> | undefined,
+) {
+	if (!body || !("model" in body || "messages" in body || "prompt" in body)) {
+		return undefined;
+	}
+
+	const quote = quoteChatCompletion(
+		upstream.pricingModelPrefix && typeof body.model === "string"
+			? { ...body, model: `${upstream.pricingModelPrefix}${body.model}` }
+			: body,
+	);
+	getLogger(upstream).info("Quoted completion", {
+		model: quote.model,
+		promptTokens: quote.promptTokens,
+		maxTokens: quote.maxTokens,
+		priceUsd: quote.priceUsd,
+	});
+
+	return quote;
+}
+
+function resolveUsdPaymentOverrides(
+	priceUsd: number,
+): Pick<EnsurePaymentConfig, "price" | "accepts"> {
+	return {
+		price: usdToTokenAmount(priceUsd, env.NETWORK),
+		accepts: env.ADDITIONAL_NETWORKS.map((network) => ({
+			network,
+			price: usdToTokenAmount(priceUsd, network),
+		})),
+	};
+}
+
+export function resolveRoutePaymentOverrides(
+	upstream: UpstreamConfig,
+	rule: RoutePricingRule,
+	quote: ChatCompletionQuote | undefined,
+	targetPath: string,
+): Partial<EnsurePaymentConfig> {
+	const route = `${upstream.mountPath}${rule.pattern}`;
+	const rateLimit = rule.rateLimit && { scope: route, policy: rule.rateLimit };
+	const cacheHitPriceUsd = rule.cache?.hitPriceUsd;
+
+	if (quote) {
+		return {
+			...resolveUsdPaymentOverrides(quote.priceUsd),
+			resourceLabel: route,
+			rateLimit,
+			cacheHitPriceUsd,
+			subject: quote.model,
+			config: {
+				description: `${upstream.label} ${quote.model} (up to ${quote.maxTokens} completion tokens)`,
+			},
+		};
+	}
+
+	if (typeof rule.price === "number") {
+		return {
+			...resolveUsdPaymentOverrides(rule.price),
+			resourceLabel: route,
+			rateLimit,
+			cacheHitPriceUsd,
+			config: {
+				description: `${upstream.label} ${targetPath}`,
+			},
+		};
+	}
+
+	return {
+		resourceLabel: route,
+		rateLimit,
+		cacheHitPriceUsd,
+		config: {
+			description: `Access to ${upstream.label} proxy`,
+		},
+	};
+}
+
+function resolveSettlementAmount(
+	upstream: UpstreamConfig,
+	paymentResult: ProxyPayment,
+	quote: ChatCompletionQuote | undefined,
+	usage: CompletionUsage | undefined,
+) {
+	if (!quote || !paymentResult.session) {
+		return undefined;
+	}
+
+	if (!usage) {
+		getLogger(upstream).warn("No usage reported; charging the quoted maximum", {
+			model: quote.model,
+		});
+		return undefined;
+	}
+
+	return usdToTokenAmount(priceUsage(quote.model, usage), paymentResult.network)
+		.amount;
+}
+
+function formatSseEvent(event: string, data: unknown) {
+	return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Passes an SSE body through untouched and settles only once it has ended
+ * cleanly: with `[DONE]` for metered completions, or simply closed for
+ * fixed-price streams that may not use that sentinel. A stream that errors,
+ * is cancelled by the client or reports an upstream error is never settled,
+ * and its payment is released. Headers are long gone by then, so the receipt
+ * is appended as a final named event after `[DONE]`, where
+ * OpenAI-compatible clients have already stopped reading.
+ */
+function settleOnStreamEnd(
+	upstream: UpstreamConfig,
+	paymentResult: ProxyPayment,
+	quote: ChatCompletionQuote | undefined,
+	source: ReadableStream<Uint8Array>,
+	onSettled?: (body: string) => Promise<void>,
 ) {
-	const paymentConfig = resolvePaymentConfig({
-		...paymentOverrides,
+	// Stream callbacks can run outside the request's context, so the id is
+	// bound here.
+	const log = getLogger(upstream).child({ requestId: getRequestId() });
+	const reader = source.getReader();
+	const tracker = createStreamUsageTracker();
+	const encoder = new TextEncoder();
+	// The body is only held on to when it is going to be cached.
+	const decoder = new TextDecoder();
+	let streamedBody = "";
+	let cancelled = false;
+
+	const finish = async (
+		controller: ReadableStreamDefaultController<Uint8Array>,
+	) => {
+		const { usage, done, failed } = tracker.end();
+		if ((quote && !done) || failed) {
+			log.warn("Stream did not complete cleanly; payment not settled");
+			await paymentResult.release(
+				failed
+					? "Stream reported an upstream error"
+					: "Stream ended before completing",
+			);
+			return;
+		}
+
+		const result = await paymentResult.settleReceipt({
+			amount: resolveSettlementAmount(upstream, paymentResult, quote, usage),
+		});
+
+		if (!result.ok) {
+			controller.enqueue(
+				encoder.encode(
+					formatSseEvent(PAYMENT_ERROR_EVENT, { error: result.error }),
+				),
+			);
+			return;
+		}
+
+		if (result.receipt) {
+			controller.enqueue(
+				encoder.encode(formatSseEvent(PAYMENT_RESPONSE_EVENT, result.receipt)),
+			);
+		}
+
+		if (onSettled && isSettled(paymentResult, result)) {
+			await onSettled(streamedBody + decoder.decode());
+		}
+	};
+
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			let chunk: ReadableStreamReadResult<Uint8Array>;
+			try {
+				chunk = await reader.read();
+			} catch (error) {
+				log.warn("Upstream stream failed; payment not settled", { error });
+				await paymentResult.release(
+					`Upstream stream failed: ${error instanceof Error ? error.message : error}`,
+				);
+				controller.error(error);
+				return;
+			}
+
+			if (cancelled) {
+				return;
+			}
+			if (chunk.done) {
+				await finish(controller);
+				controller.close();
+				return;
+			}
+
+			tracker.write(chunk.value);
+			if (onSettled) {
+				streamedBody += decoder.decode(chunk.value, { stream: true });
+			}
+			controller.enqueue(chunk.value);
+		},
+		async cancel(reason) {
+			cancelled = true;
+			log.warn("Client cancelled the stream; payment not settled");
+			await paymentResult.release("Client cancelled the stream");
+			await reader.cancel(reason);
+		},
 	});
+}
+
+/**
+ * Draws on the credit session named by `X-PAYMENT-SESSION` when present and
+ * falls back to a per-call x402 payment otherwise.
+ */
+async function authorizePayment(
+	request: Request,
+	routePrice: RoutePrice,
+	quote: ChatCompletionQuote | undefined,
+	paymentConfig: EnsurePaymentConfig,
+): Promise<PaymentFailureResult | ProxyPayment> {
+	if (routePrice === "free") {
+		return FREE_ACCESS;
+	}
+
+	const sessionToken = request.headers.get(X_PAYMENT_SESSION_HEADER);
+	if (sessionToken) {
+		return authorizeCreditSession(
+			sessionToken,
+			resolveChargeUsd(routePrice, quote),
+			paymentConfig.rateLimit && {
+				...paymentConfig.rateLimit,
+				ip: getClientIp(request.headers),
+			},
+		);
+	}
 
 	const paymentResult = await paymentPlugin.ensurePayment(
 		request,
 		paymentConfig,
 	);
+	if (!paymentResult.ok) {
+		return paymentResult;
+	}
+
+	return { ...paymentResult, network: paymentResult.requirements.network };
+}
+
+function resolveTargetPath(upstream: UpstreamConfig, pathSegments: string[]) {
+	if (pathSegments.length === 0) {
+		return upstream.defaultPath;
+	}
+
+	// Resolve dot segments here so the priced path is the one we forward to;
+	// otherwise `/api/v1/models/../credits` would ride a free rule.
+	return new URL(`/${pathSegments.join("/")}`, upstream.baseUrl).pathname;
+}
+
+function createRouteDeniedResponse(
+	upstream: UpstreamConfig,
+	routePrice: RoutePrice | undefined,
+	method: string,
+	targetPath: string,
+) {
+	const blocked = routePrice === "blocked";
+	getLogger(upstream).warn(blocked ? "Blocked route" : "Unlisted route", {
+		method,
+		path: targetPath,
+	});
+
+	return new Response(
+		JSON.stringify({
+			error: blocked
+				? `This ${upstream.label} endpoint is not available through the proxy`
+				: `Unknown ${upstream.label} endpoint`,
+		}),
+		{
+			status: blocked ? 403 : 404,
+			headers: { "Content-Type": "application/json" },
+		},
+	);
+}
+
+function createInvalidRequestResponse(
+	upstream: UpstreamConfig,
+	method: string,
+	targetPath: string,
+	error: string,
+	issues: Record<string, string[] | undefined>,
+) {
+	getLogger(upstream).warn("Rejected request body", {
+		method,
+		path: targetPath,
+		error,
+		fields: Object.keys(issues),
+	});
+
+	return new Response(JSON.stringify({ error, issues }), {
+		status: 400,
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+export const X_PAYMENT_QUOTE_HEADER = "X-PAYMENT-QUOTE";
+/** `HIT`, `MISS` or `BYPASS` on routes with a response cache. */
+const X_CACHE_HEADER = "X-Cache";
+
+interface PricedUpstreamRequest {
+	ok: true;
+	targetPath: string;
+	rule: RoutePricingRule;
+	body: Record<string, unknown> | undefined;
+	quote: ChatCompletionQuote | undefined;
+	paymentConfig: EnsurePaymentConfig;
+}
+
+type PriceUpstreamResult =
+	| { ok: false; response: Response }
+	| PricedUpstreamRequest;
+
+/** What a request is charged in USD, or its hold on a credit session. */
+function resolveChargeUsd(
+	routePrice: RoutePrice,
+	quote: ChatCompletionQuote | undefined,
+) {
+	return (
+		quote?.priceUsd ??
+		(typeof routePrice === "number" ? routePrice : DEFAULT_PRICE_USD)
+	);
+}
+
+function resolveQuotedPriceUsd(
+	upstream: UpstreamConfig,
+	quoteToken: string | null,
+	quotedRequest: QuotedRequest,
+) {
+	if (!quoteToken) {
+		return undefined;
+	}
+
+	const priceUsd = resolveQuotedPrice(quoteToken, quotedRequest);
+	if (priceUsd === undefined) {
+		getLogger(upstream).warn("Ignoring invalid or expired quote", {
+			target: quotedRequest.target,
+		});
+	} else {
+		getLogger(upstream).info("Honoring quoted price", {
+			target: quotedRequest.target,
+			priceUsd,
+		});
+	}
+	return priceUsd;
+}
+
+/**
+ * Routes, validates and prices a request exactly as it will be charged,
+ * whether it is being forwarded or only quoted. A live quote token for the
+ * same target and body replaces the computed price.
+ */
+function priceUpstreamRequest(
+	upstream: UpstreamConfig,
+	method: string,
+	pathSegments: string[],
+	bodyText: string | undefined,
+	paymentOverrides: Partial<EnsurePaymentConfig>,
+	quoteToken: string | null,
+): PriceUpstreamResult {
+	const targetPath = resolveTargetPath(upstream, pathSegments);
+	const routeRule = resolveRoutePricing(targetPath, method, upstream.pricing);
+	if (!routeRule || routeRule.price === "blocked") {
+		return {
+			ok: false,
+			response: createRouteDeniedResponse(
+				upstream,
+				routeRule?.price,
+				method,
+				targetPath,
+			),
+		};
+	}
+
+	const body = parseJsonBody(bodyText);
+	if (routeRule.requestPolicy) {
+		// Checked before payment so a request the upstream would refuse costs nothing.
+		const validation = checkRequestPolicy(
+			routeRule.requestPolicy,
+			body ?? bodyText,
+		);
+		if (!validation.ok) {
+			return {
+				ok: false,
+				response: createInvalidRequestResponse(
+					upstream,
+					method,
+					targetPath,
+					validation.error,
+					validation.issues,
+				),
+			};
+		}
+	}
+
+	let rule = routeRule;
+	let quote =
+		rule.price === "metered"
+			? resolveCompletionQuote(upstream, body)
+			: undefined;
+	const quotedPriceUsd =
+		rule.price === "free"
+			? undefined
+			: resolveQuotedPriceUsd(upstream, quoteToken, {
+					target: `${method} ${upstream.mountPath}${targetPath}`,
+					body: bodyText ?? "",
+				});
+	if (quotedPriceUsd !== undefined) {
+		if (quote) {
+			// Credit sessions are still charged usage, capped at the quoted price.
+			quote = { ...quote, priceUsd: quotedPriceUsd };
+		} else {
+			rule = { ...rule, price: quotedPriceUsd };
+		}
+	}
+
+	const routeOverrides = resolveRoutePaymentOverrides(
+		upstream,
+		rule,
+		quote,
+		targetPath,
+	);
+
+	return {
+		ok: true,
+		targetPath,
+		rule,
+		body,
+		quote,
+		paymentConfig: resolvePaymentConfig({
+			...routeOverrides,
+			...paymentOverrides,
+			config: {
+				...routeOverrides.config,
+				...paymentOverrides.config,
+			},
+		}),
+	};
+}
+
+interface ResponseCacheLookup {
+	store: ResponseCacheStore;
+	key: string;
+	ttlMs: number;
+	hit: CachedResponse | undefined;
+}
+
+/**
+ * Looks up the cached response for a deterministic (`temperature: 0`)
+ * request. Other requests, and clients sending `Cache-Control: no-cache` or
+ * `no-store`, bypass the cache.
+ */
+async function lookupResponseCache(
+	upstream: UpstreamConfig,
+	request: Request,
+	policy: RouteCachePolicy,
+	target: { method: string; targetPath: string },
+	body: Record<string, unknown> | undefined,
+	quote: ChatCompletionQuote | undefined,
+): Promise<ResponseCacheLookup | undefined> {
+	const cacheControl = request.headers.get("cache-control") ?? "";
+	if (body?.temperature !== 0 || /no-cache|no-store/i.test(cacheControl)) {
+		return undefined;
+	}
+
+	const store = policy.store ?? responseCacheStore;
+	const key = createResponseCacheKey(
+		upstream.name,
+		target.method,
+		target.targetPath,
+		quote?.model ?? body.model,
+		body,
+	);
+	try {
+		return {
+			store,
+			key,
+			ttlMs: policy.ttlSeconds * 1_000,
+			hit: await store.get(key),
+		};
+	} catch (error) {
+		getLogger(upstream).error("Response cache lookup failed", { error });
+		return undefined;
+	}
+}
+
+async function saveCachedResponse(
+	upstream: UpstreamConfig,
+	lookup: ResponseCacheLookup,
+	response: CachedResponse,
+) {
+	try {
+		await lookup.store.set(lookup.key, response, lookup.ttlMs);
+	} catch (error) {
+		getLogger(upstream).error("Response cache write failed", { error });
+	}
+}
+
+/**
+ * Prices a request without taking payment. Responds with the requirements
+ * `forwardUpstream` would put in its 402 and a signed quote; sending the
+ * quote back in `X-PAYMENT-QUOTE` with the same body locks that price in
+ * for `QUOTE_TTL_SECONDS`.
+ */
+export async function quoteUpstream(
+	upstream: UpstreamConfig,
+	request: Request,
+	target: { method: string; pathSegments: string[] },
+	paymentOverrides: Partial<EnsurePaymentConfig> = {},
+) {
+	// Read by the quoted method, so a quote for a GET binds no body, as the
+	// real GET will carry none.
+	const bodyText = await readRequestBody(request, target.method);
+	const priced = priceUpstreamRequest(
+		upstream,
+		target.method,
+		target.pathSegments,
+		bodyText,
+		paymentOverrides,
+		null,
+	);
+	if (!priced.ok) {
+		return applyCorsHeaders(request, priced.response);
+	}
+
+	const { targetPath, rule, quote, paymentConfig } = priced;
+	const resource = new URL(
+		`${upstream.mountPath}${targetPath}`,
+		request.url,
+	).toString() as Resource;
+	const respondJson = (body: unknown, status = 200) =>
+		applyCorsHeaders(request, jsonResponse(body, status));
+
+	if (rule.price === "free") {
+		return respondJson({
+			x402Version: X402_VERSION,
+			resource,
+			method: target.method,
+			priceUsd: 0,
+			accepts: [],
+		});
+	}
+
+	const accepts = createPaymentRequirements(
+		createHttpPaymentRequest(paymentConfig, {
+			resource,
+			method: target.method,
+		}),
+	);
+	if (!Array.isArray(accepts)) {
+		return respondJson({ error: accepts.error }, accepts.status);
+	}
+
+	const priceUsd = resolveChargeUsd(rule.price, quote);
+	const signed = createPaymentQuote(
+		{
+			target: `${target.method} ${upstream.mountPath}${targetPath}`,
+			body: bodyText ?? "",
+		},
+		priceUsd,
+	);
+	getLogger(upstream).info("Issued quote", {
+		method: target.method,
+		path: targetPath,
+		priceUsd,
+	});
+
+	return respondJson({
+		x402Version: X402_VERSION,
+		resource,
+		method: target.method,
+		priceUsd,
+		accepts,
+		quote: signed.token,
+		expiresAt: new Date(signed.expiresAt).toISOString(),
+	});
+}
+
+/**
+ * The paid forwarding pipeline shared by every upstream: prices the path,
+ * takes payment, injects the upstream's credentials and settles on the
+ * response.
+ */
+export async function forwardUpstream(
+	upstream: UpstreamConfig,
+	request: Request,
+	pathSegments: string[] = [],
+	paymentOverrides: Partial<EnsurePaymentConfig> = {},
+) {
+	const log = getLogger(upstream);
+	const method = request.method.toUpperCase();
+	const bodyText = await readRequestBody(request, method);
+	const priced = priceUpstreamRequest(
+		upstream,
+		method,
+		pathSegments,
+		bodyText,
+		paymentOverrides,
+		request.headers.get(X_PAYMENT_QUOTE_HEADER),
+	);
+	if (!priced.ok) {
+		return applyCorsHeaders(request, priced.response);
+	}
+	const { targetPath, rule, body, quote, paymentConfig } = priced;
+
+	const cacheLookup = rule.cache
+		? await lookupResponseCache(
+				upstream,
+				request,
+				rule.cache,
+				{ method, targetPath },
+				body,
+				quote,
+			)
+		: undefined;
+	const cachedResponse = cacheLookup?.hit;
+	const cacheStatus = rule.cache
+		? cachedResponse
+			? "HIT"
+			: cacheLookup
+				? "MISS"
+				: "BYPASS"
+		: undefined;
+	const respond = (response: Response) => {
+		if (cacheStatus) {
+			response.headers.set(X_CACHE_HEADER, cacheStatus);
+		}
+		return applyCorsHeaders(request, response);
+	};
+
+	// A cache hit costs its own flat price and is never metered, but never
+	// more than the call would have cost uncached; a free route stays free.
+	const hitPriceUsd =
+		rule.price === "free"
+			? 0
+			: Math.min(
+					paymentConfig.cacheHitPriceUsd ?? DEFAULT_PRICE_USD,
+					resolveChargeUsd(rule.price, quote),
+				);
+	const paymentResult = cachedResponse
+		? await authorizePayment(
+				request,
+				hitPriceUsd > 0 ? hitPriceUsd : "free",
+				undefined,
+				{
+					...paymentConfig,
+					...resolveUsdPaymentOverrides(hitPriceUsd),
+					config: {
+						...paymentConfig.config,
+						description: `${paymentConfig.config?.description ?? upstream.label} (cached)`,
+					},
+				},
+			)
+		: await authorizePayment(request, rule.price, quote, paymentConfig);
 
 	if (!paymentResult.ok) {
-		return applyCorsHeaders(request, paymentResult.response);
+		return respond(paymentResult.response);
 	}
 
-	const finalizeResponse = async (original: Response) => {
-		const settlementResult = await paymentResult.settle(original);
-		return applyCorsHeaders(request, settlementResult.response);
+	const finalizeResponse = async (
+		original: Response,
+		settlementOptions?: CreditSessionSettlementOptions,
+		onSettled?: () => Promise<void>,
+	) => {
+		const settlementResult = await paymentResult.settle(
+			original,
+			settlementOptions,
+		);
+		if (onSettled && isSettled(paymentResult, settlementResult)) {
+			await onSettled();
+		}
+		return respond(settlementResult.response);
 	};
 
+	if (cachedResponse) {
+		log.info("Serving from the response cache", { method, path: targetPath });
+		// Cached streams are replayed whole, so the receipt goes in the header.
+		return finalizeResponse(
+			new Response(cachedResponse.body, {
+				status: cachedResponse.status,
+				headers: cachedResponse.contentType
+					? { "Content-Type": cachedResponse.contentType }
+					: {},
+			}),
+		);
+	}
+
 	const url = new URL(request.url);
-	const targetPath = resolveTargetPath(pathSegments);
-	const targetUrl = `${OPENROUTER_BASE_URL}${targetPath}${url.search}`;
-	const method = request.method.toUpperCase();
-	const headers = buildForwardHeaders(request);
+	const targetUrl = `${upstream.baseUrl}${targetPath}${url.search}`;
+	const headers = buildForwardHeaders(request, upstream);
 
-	const init: RequestInit & { duplex?: "half" } = {
+	const init: RequestInit = {
 		method,
 		headers,
+		body:
+			body && quote && upstream.usageAccounting
+				? JSON.stringify(withUsageAccounting(body))
+				: bodyText,
 	};
 
-	if (request.body && method !== "GET" && method !== "HEAD") {
-		init.body = request.body;
-		init.duplex = "half";
-	}
+	log.info("Forwarding request", {
+		method,
+		path: targetPath,
+		query: url.search || undefined,
+		bodyBytes: bodyText ? Buffer.byteLength(bodyText) : 0,
+		model: quote?.model,
+	});
 
-	console.log(
-		`[openrouter-proxy] Forwarding ${method} ${targetPath}${url.search}\n ${JSON.stringify(request.body)}`,
-	);
+	const startedAt = performance.now();
+	const observeUpstream = (status: string) =>
+		proxyMetrics.upstreamDuration.observe(
+			{ upstream: upstream.name, method, status },
+			(performance.now() - startedAt) / 1_000,
+		);
 
 	let upstreamResponse: Response;
 	try {
 		upstreamResponse = await fetch(targetUrl, init);
 	} catch (error) {
-		console.error(
-			`[openrouter-proxy] Upstream request failed for ${method} ${targetPath}`,
-			error,
-		);
+		observeUpstream("error");
+		log.error("Upstream request failed", { method, path: targetPath, error });
 		const message =
-			error instanceof Error ? error.message : "Failed to reach OpenRouter";
+			error instanceof Error
+				? error.message
+				: `Failed to reach ${upstream.label}`;
 		const response = new Response(JSON.stringify({ error: message }), {
 			status: 502,
 			headers: { "Content-Type": "application/json" },
@@ -129,15 +907,78 @@ export async function forwardOpenRouter(
 	responseHeaders.delete("content-security-policy");
 	responseHeaders.delete("content-length");
 
-	const response = new Response(upstreamResponse.body, {
+	const responseInit: ResponseInit = {
 		status: upstreamResponse.status,
 		statusText: upstreamResponse.statusText,
 		headers: responseHeaders,
+	};
+
+	observeUpstream(String(upstreamResponse.status));
+	log.info("Upstream responded", {
+		method,
+		path: targetPath,
+		status: upstreamResponse.status,
+		durationMs: Math.round(performance.now() - startedAt),
 	});
 
-	console.log(
-		`[openrouter-proxy] Response ${upstreamResponse.status} ${upstreamResponse.statusText} for ${method} ${targetPath}`,
+	if (!upstreamResponse.ok) {
+		return finalizeResponse(new Response(upstreamResponse.body, responseInit));
+	}
+
+	const contentType = upstreamResponse.headers.get("content-type");
+	const cacheResponse =
+		cacheLookup &&
+		((text: string) =>
+			saveCachedResponse(upstream, cacheLookup, {
+				status: upstreamResponse.status,
+				contentType,
+				body: text,
+			}));
+
+	if (isEventStream(contentType) && upstreamResponse.body) {
+		const body = settleOnStreamEnd(
+			upstream,
+			paymentResult,
+			quote,
+			upstreamResponse.body,
+			cacheResponse,
+		);
+		return respond(new Response(body, responseInit));
+	}
+
+	const settlesOnUsage = quote !== undefined && paymentResult.session;
+	if (!settlesOnUsage && !cacheResponse) {
+		return finalizeResponse(new Response(upstreamResponse.body, responseInit));
+	}
+
+	// Metered JSON responses are buffered so the usage block is known before
+	// a credit session is charged; cached ones so they can be stored.
+	const responseText = await upstreamResponse.text();
+	return finalizeResponse(
+		new Response(responseText, responseInit),
+		settlesOnUsage
+			? {
+					amount: resolveSettlementAmount(
+						upstream,
+						paymentResult,
+						quote,
+						extractUsage(contentType, responseText),
+					),
+				}
+			: undefined,
+		cacheResponse && (() => cacheResponse(responseText)),
 	);
+}
 
-	return finalizeResponse(response);
+export function forwardOpenRouter(
+	request: Request,
+	pathSegments: string[] = [],
+	paymentOverrides: Partial<EnsurePaymentConfig> = {},
+) {
+	return forwardUpstream(
+		OPENROUTER_UPSTREAM,
+		request,
+		pathSegments,
+		paymentOverrides,
+	);
 }
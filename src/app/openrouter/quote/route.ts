@@ -0,0 +1,50 @@
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import { applyCorsHeaders, createCorsPreflightResponse } from "@/lib/cors";
+import { withRequestId } from "@/lib/logger";
+import { quoteUpstream } from "../proxy-handler";
+import { OPENROUTER_UPSTREAM } from "../upstreams";
+
+export const runtime = "nodejs";
+
+const quoteQuerySchema = z.object({
+	// Upstream path the body will be sent to; the default path when omitted.
+	path: z.string().startsWith("/").optional(),
+	method: z.enum(["GET", "POST"]).default("POST"),
+});
+
+export function OPTIONS(request: NextRequest) {
+	return createCorsPreflightResponse(request);
+}
+
+async function quote(request: NextRequest) {
+	const parsed = quoteQuerySchema.safeParse(
+		Object.fromEntries(request.nextUrl.searchParams),
+	);
+	if (!parsed.success) {
+		return applyCorsHeaders(
+			request,
+			new Response(
+				JSON.stringify({
+					error: "Invalid query",
+					issues: parsed.error.flatten().fieldErrors,
+				}),
+				{ status: 400, headers: { "Content-Type": "application/json" } },
+			),
+		);
+	}
+
+	const { path, method } = parsed.data;
+	return quoteUpstream(OPENROUTER_UPSTREAM, request, {
+		method,
+		pathSegments: path ? path.split("/").filter(Boolean) : [],
+	});
+}
+
+/**
+ * Free price check: the body is the exact request the client plans to send
+ * to `/openrouter<path>`.
+ */
+export function POST(request: NextRequest) {
+	return withRequestId(request, () => quote(request));
+}
@@ -0,0 +1,198 @@
+import { minimatch } from "minimatch";
+import { z } from "zod";
+
+/**
+ * Checks applied to a proxied body before any payment is taken, so requests
+ * the upstream would reject never cost a verification round-trip.
+ */
+export interface RequestPolicy {
+	/** Shape the JSON body must have. */
+	schema: z.AnyZodObject;
+	/** Globs the `model` must match, e.g. `openai/*`; any model when omitted. */
+	allowedModels?: string[];
+	/** Globs the `model` must not match. */
+	deniedModels?: string[];
+	/** Ceiling for `max_tokens` and `max_completion_tokens`. */
+	maxTokens?: number;
+	/** Top-level parameters that are refused outright. */
+	disallowedParams?: string[];
+	/** Limit on the serialized `messages` (or `prompt`), in characters. */
+	maxMessageChars?: number;
+}
+
+export type RequestPolicyResult =
+	| { ok: true }
+	| {
+			ok: false;
+			error: string;
+			issues: Record<string, string[] | undefined>;
+	  };
+
+const bodyErrors = {
+	required_error: "A JSON body is required",
+	invalid_type_error: "Body must be a JSON object",
+};
+
+const tokenLimitSchema = z.number().int().positive().optional();
+
+const messageSchema = z
+	.object({
+		role: z.enum(["system", "developer", "user", "assistant", "tool"]),
+		content: z.union([
+			z.string(),
+			z.array(z.object({ type: z.string() }).passthrough()),
+			z.null(),
+		]),
+	})
+	.passthrough();
+
+export const chatCompletionSchema = z
+	.object(
+		{
+			model: z.string().min(1).optional(),
+			messages: z.array(messageSchema).min(1),
+			max_tokens: tokenLimitSchema,
+			max_completion_tokens: tokenLimitSchema,
+			stream: z.boolean().optional(),
+		},
+		bodyErrors,
+	)
+	.passthrough();
+
+export const completionSchema = z
+	.object(
+		{
+			model: z.string().min(1).optional(),
+			prompt: z.union([z.string(), z.array(z.string()).min(1)]),
+			max_tokens: tokenLimitSchema,
+			stream: z.boolean().optional(),
+		},
+		bodyErrors,
+	)
+	.passthrough();
+
+export const anthropicMessagesSchema = z
+	.object(
+		{
+			model: z.string().min(1),
+			messages: z
+				.array(
+					z
+						.object({
+							role: z.enum(["user", "assistant"]),
+							content: z.union([
+								z.string(),
+								z.array(z.object({ type: z.string() }).passthrough()),
+							]),
+						})
+						.passthrough(),
+				)
+				.min(1),
+			max_tokens: z.number().int().positive(),
+			stream: z.boolean().optional(),
+		},
+		bodyErrors,
+	)
+	.passthrough();
+
+function createPolicySchema(policy: RequestPolicy) {
+	return policy.schema.superRefine((body, ctx) => {
+		const model = typeof body.model === "string" ? body.model : undefined;
+		if (model !== undefined) {
+			if (
+				policy.allowedModels &&
+				!policy.allowedModels.some((pattern) => minimatch(model, pattern))
+			) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ["model"],
+					message: `Model ${model} is not available through this proxy`,
+				});
+			}
+			if (policy.deniedModels?.some((pattern) => minimatch(model, pattern))) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: ["model"],
+					message: `Model ${model} is not allowed`,
+				});
+			}
+		}
+
+		if (policy.maxTokens !== undefined) {
+			for (const field of ["max_tokens", "max_completion_tokens"]) {
+				const value = body[field];
+				if (typeof value === "number" && value > policy.maxTokens) {
+					ctx.addIssue({
+						code: z.ZodIssueCode.custom,
+						path: [field],
+						message: `Must be at most ${policy.maxTokens}`,
+					});
+				}
+			}
+		}
+
+		for (const param of policy.disallowedParams ?? []) {
+			if (param in body) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: [param],
+					message: "This parameter is not allowed",
+				});
+			}
+		}
+
+		if (policy.maxMessageChars !== undefined) {
+			const field = "messages" in body ? "messages" : "prompt";
+			const size = JSON.stringify(body[field] ?? "").length;
+			if (size > policy.maxMessageChars) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					path: [field],
+					message: `Must be at most ${policy.maxMessageChars} characters, got ${size}`,
+				});
+			}
+		}
+	});
+}
+
+/** Validates a parsed JSON body (or the raw text when it was not JSON). */
+export function checkRequestPolicy(
+	policy: RequestPolicy,
+	body: unknown,
+): RequestPolicyResult {
+	const result = createPolicySchema(policy).safeParse(body);
+	if (result.success) {
+		return { ok: true };
+	}
+
+	const { formErrors, fieldErrors } = result.error.flatten();
+	return {
+		ok: false,
+		error: formErrors[0] ?? "Invalid request body",
+		issues: fieldErrors,
+	};
+}
+
+/** Billing assumes one completion per request, so `n` and `best_of` are out. */
+const SINGLE_COMPLETION_PARAMS = ["n", "best_of"];
+
+export const CHAT_COMPLETION_POLICY: RequestPolicy = {
+	schema: chatCompletionSchema,
+	maxTokens: 32_768,
+	disallowedParams: SINGLE_COMPLETION_PARAMS,
+	maxMessageChars: 1_000_000,
+};
+
+export const COMPLETION_POLICY: RequestPolicy = {
+	schema: completionSchema,
+	maxTokens: 32_768,
+	disallowedParams: SINGLE_COMPLETION_PARAMS,
+	maxMessageChars: 1_000_000,
+};
+
+/** Anthropic calls are fixed-price, so output is capped to keep them profitable. */
+export const ANTHROPIC_MESSAGES_POLICY: RequestPolicy = {
+	schema: anthropicMessagesSchema,
+	maxTokens: 8_192,
+	maxMessageChars: 1_000_000,
+};
@@ -0,0 +1,104 @@
+import { minimatch } from "minimatch";
+import { env } from "@/lib/env";
+import type { RateLimitPolicy } from "@/lib/rate-limiter";
+import type { ResponseCacheStore } from "@/lib/response-cache";
+import {
+	CHAT_COMPLETION_POLICY,
+	COMPLETION_POLICY,
+	type RequestPolicy,
+} from "./request-policy";
+
+/**
+ * How an upstream path is charged:
+ * - `"metered"`: quoted from the chat completion body and settled on usage
+ * - a number: a fixed price in USD
+ * - `"free"`: forwarded without payment
+ * - `"blocked"`: never forwarded
+ */
+export type RoutePrice = "metered" | "free" | "blocked" | number;
+
+/**
+ * Answers repeated deterministic (`temperature: 0`) requests from a cache,
+ * at a lower price than a fresh upstream call.
+ */
+export interface RouteCachePolicy {
+	ttlSeconds: number;
+	/** What a cache hit costs, in USD. */
+	hitPriceUsd: number;
+	/** Defaults to the shared in-memory store. */
+	store?: ResponseCacheStore;
+}
+
+export interface RoutePricingRule {
+	/** Glob matched against the upstream path, e.g. `/api/v1/models/**`. */
+	pattern: string;
+	/** Upper-case methods the rule applies to; all methods when omitted. */
+	methods?: string[];
+	price: RoutePrice;
+	/** Per-payer limits for paid requests matching this rule. */
+	rateLimit?: RateLimitPolicy;
+	/** Body checks run before payment; bodies are forwarded as-is when omitted. */
+	requestPolicy?: RequestPolicy;
+	/** Opt-in response cache for the rule's deterministic requests. */
+	cache?: RouteCachePolicy;
+}
+
+/**
+ * Keeps a single payer from using up the proxy's own OpenRouter rate limit:
+ * bursts of 10 completions, 30 a minute sustained and $50 a day.
+ */
+export const COMPLETION_RATE_LIMIT: RateLimitPolicy = {
+	requests: { burst: 10, perMinute: 30 },
+	maxSpendPerDay: BigInt(50_000_000),
+};
+
+/** Completions are only cached when `RESPONSE_CACHE_TTL_SECONDS` is set. */
+export const COMPLETION_CACHE: RouteCachePolicy | undefined =
+	env.RESPONSE_CACHE_TTL_SECONDS
+		? {
+				ttlSeconds: env.RESPONSE_CACHE_TTL_SECONDS,
+				hitPriceUsd: env.RESPONSE_CACHE_HIT_PRICE_USD,
+			}
+		: undefined;
+
+/**
+ * First match wins. Paths that match no rule are denied, so new upstream
+ * endpoints stay closed until they are priced here.
+ */
+export const ROUTE_PRICING: RoutePricingRule[] = [
+	{
+		pattern: "/api/v1/chat/completions",
+		methods: ["POST"],
+		price: "metered",
+		rateLimit: COMPLETION_RATE_LIMIT,
+		requestPolicy: CHAT_COMPLETION_POLICY,
+		cache: COMPLETION_CACHE,
+	},
+	{
+		pattern: "/api/v1/completions",
+		methods: ["POST"],
+		price: "metered",
+		rateLimit: COMPLETION_RATE_LIMIT,
+		requestPolicy: COMPLETION_POLICY,
+		cache: COMPLETION_CACHE,
+	},
+	{ pattern: "/api/v1/models", methods: ["GET"], price: "free" },
+	{ pattern: "/api/v1/models/**", methods: ["GET"], price: "free" },
+	{ pattern: "/api/v1/generation", methods: ["GET"], price: "free" },
+	// These would expose the proxy's own OpenRouter account.
+	{ pattern: "/api/v1/credits{,/**}", price: "blocked" },
+	{ pattern: "/api/v1/keys{,/**}", price: "blocked" },
+	{ pattern: "/api/v1/key", price: "blocked" },
+];
+
+export function resolveRoutePricing(
+	path: string,
+	method: string,
+	rules: RoutePricingRule[] = ROUTE_PRICING,
+): RoutePricingRule | undefined {
+	return rules.find(
+		(candidate) =>
+			(!candidate.methods || candidate.methods.includes(method)) &&
+			minimatch(path, candidate.pattern),
+	);
+}
@@ -1,5 +1,6 @@
 import type { NextRequest } from "next/server";
 import { createCorsPreflightResponse } from "@/lib/cors";
+import { withRequestId } from "@/lib/logger";
 import { forwardOpenRouter } from "./proxy-handler";
 
 export const runtime = "nodejs";
@@ -9,9 +10,9 @@ export function OPTIONS(request: NextRequest) {
 }
 
 export function GET(request: NextRequest) {
-	return forwardOpenRouter(request);
+	return withRequestId(request, () => forwardOpenRouter(request));
 }
 
 export function POST(request: NextRequest) {
-	return forwardOpenRouter(request);
+	return withRequestId(request, () => forwardOpenRouter(request));
 }
@@ -0,0 +1,141 @@
+import type { NextRequest } from "next/server";
+import { z } from "zod";
+import { applyCorsHeaders, createCorsPreflightResponse } from "@/lib/cors";
+import {
+	CREDIT_SESSION_TTL_MS,
+	type CreditSession,
+	createCreditSessionId,
+	creditSessionStore,
+	signCreditSessionToken,
+} from "@/lib/credit-sessions";
+import { createLogger, withRequestId } from "@/lib/logger";
+import { jsonResponse } from "@/lib/utils";
+import {
+	MAX_TOP_UP_USD,
+	MIN_TOP_UP_USD,
+	resolveCreditSession,
+	resolveTopUpPaymentConfig,
+	X_PAYMENT_SESSION_HEADER,
+} from "../credit-session";
+import { paymentPlugin } from "../payment-config";
+
+export const runtime = "nodejs";
+
+const log = createLogger("credit-session");
+
+const topUpSchema = z.object({
+	amount: z.number().min(MIN_TOP_UP_USD).max(MAX_TOP_UP_USD),
+});
+
+function respond(request: Request, body: unknown, status = 200) {
+	return applyCorsHeaders(request, jsonResponse(body, status));
+}
+
+function describeSession(session: CreditSession) {
+	return {
+		balance: session.balance,
+		network: session.network,
+		asset: session.asset,
+		expiresAt: new Date(session.expiresAt).toISOString(),
+	};
+}
+
+export function OPTIONS(request: NextRequest) {
+	return createCorsPreflightResponse(request);
+}
+
+async function getSession(request: NextRequest) {
+	const token = request.headers.get(X_PAYMENT_SESSION_HEADER);
+	const session = token ? await resolveCreditSession(token) : undefined;
+	if (!session) {
+		return respond(
+			request,
+			{ error: "Credit session is invalid or has expired" },
+			401,
+		);
+	}
+
+	return respond(request, describeSession(session));
+}
+
+/**
+ * Opens a credit session, or tops up the one named by `X-PAYMENT-SESSION`,
+ * with a single x402 payment of `amount` USD. The balance is only as
+ * durable as `creditSessionStore`; see `CREDIT_SESSION_STORE_PATH`.
+ */
+async function fundSession(request: NextRequest) {
+	const parsed = topUpSchema.safeParse(await request.json().catch(() => null));
+	if (!parsed.success) {
+		return respond(
+			request,
+			{
+				error: "Invalid top-up request",
+				issues: parsed.error.flatten().fieldErrors,
+			},
+			400,
+		);
+	}
+
+	const token = request.headers.get(X_PAYMENT_SESSION_HEADER);
+	const existing = token ? await resolveCreditSession(token) : undefined;
+	if (token && !existing) {
+		return respond(
+			request,
+			{ error: "Credit session is invalid or has expired" },
+			401,
+		);
+	}
+
+	const paymentResult = await paymentPlugin.ensurePayment(
+		request,
+		resolveTopUpPaymentConfig(parsed.data.amount, existing),
+	);
+	if (!paymentResult.ok) {
+		return applyCorsHeaders(request, paymentResult.response);
+	}
+
+	const settlement = await paymentResult.settleReceipt();
+	if (!settlement.ok) {
+		return respond(request, { error: settlement.error }, settlement.status);
+	}
+	if (!settlement.receipt) {
+		return respond(request, { error: "Settlement was not successful" }, 402);
+	}
+
+	const { receipt } = settlement;
+	let session: CreditSession;
+	if (existing) {
+		await creditSessionStore.credit(existing.id, BigInt(receipt.amount));
+		session = (await creditSessionStore.get(existing.id)) ?? existing;
+	} else {
+		session = {
+			id: createCreditSessionId(),
+			payer: receipt.payer,
+			network: paymentResult.requirements.network,
+			asset: paymentResult.requirements.asset,
+			balance: receipt.amount,
+			expiresAt: Date.now() + CREDIT_SESSION_TTL_MS,
+		};
+		await creditSessionStore.create(session);
+	}
+
+	log.info("Funded session", {
+		sessionId: session.id,
+		amount: receipt.amount,
+		transaction: receipt.transaction,
+	});
+
+	return respond(request, {
+		token: signCreditSessionToken(session),
+		...describeSession(session),
+		receipt,
+	});
+}
+
+export function GET(request: NextRequest) {
+	return withRequestId(request, () => getSession(request));
+}
+
+export function POST(request: NextRequest) {
+	return withRequestId(request, () => fundSession(request));
+}
@@ -0,0 +1,126 @@
+import { env } from "@/lib/env";
+import {
+	ANTHROPIC_MESSAGES_POLICY,
+	CHAT_COMPLETION_POLICY,
+} from "./request-policy";
+import {
+	COMPLETION_CACHE,
+	COMPLETION_RATE_LIMIT,
+	ROUTE_PRICING,
+	type RoutePricingRule,
+} from "./route-pricing";
+
+/** How the proxy authenticates to an upstream on the payer's behalf. */
+export type UpstreamAuth =
+	| { type: "bearer"; token: string }
+	| { type: "header"; name: string; value: string }
+	| { type: "none" };
+
+export interface UpstreamHeaderRules {
+	/** Request headers forwarded upstream; all but the denied ones when omitted. */
+	allow?: string[];
+	/** Never forwarded, on top of the payment and hop-by-hop headers. */
+	deny?: string[];
+	/** Sent when the client did not set them. */
+	defaults?: Record<string, string>;
+}
+
+export interface UpstreamConfig {
+	name: string;
+	/** Human-readable name used in payment descriptions. */
+	label: string;
+	/** Route prefix the upstream is served under. */
+	mountPath: string;
+	baseUrl: string;
+	/** Forwarded to when a request names no path. */
+	defaultPath: string;
+	auth: UpstreamAuth;
+	headers?: UpstreamHeaderRules;
+	/** First match wins; unlisted paths are denied. */
+	pricing: RoutePricingRule[];
+	/** Asks for OpenRouter's `usage.include` so metered calls settle on usage. */
+	usageAccounting?: boolean;
+	/** Prepended to the model before looking up its rate, e.g. `openai/`. */
+	pricingModelPrefix?: string;
+}
+
+export const OPENROUTER_UPSTREAM: UpstreamConfig = {
+	name: "openrouter",
+	label: "OpenRouter",
+	mountPath: "/openrouter",
+	baseUrl: "https://openrouter.ai",
+	defaultPath: "/api/v1/chat/completions",
+	auth: { type: "bearer", token: env.OPENROUTER_API_KEY },
+	headers: { defaults: { "x-title": "x402-openrouter-proxy" } },
+	pricing: ROUTE_PRICING,
+	usageAccounting: true,
+};
+
+const OPENAI_UPSTREAM: UpstreamConfig | undefined = env.OPENAI_API_KEY
+	? {
+			name: "openai",
+			label: "OpenAI",
+			mountPath: "/proxy/openai",
+			baseUrl: env.OPENAI_BASE_URL,
+			defaultPath: "/v1/chat/completions",
+			auth: { type: "bearer", token: env.OPENAI_API_KEY },
+			headers: { deny: ["openai-organization", "openai-project"] },
+			pricing: [
+				{
+					pattern: "/v1/chat/completions",
+					methods: ["POST"],
+					price: "metered",
+					rateLimit: COMPLETION_RATE_LIMIT,
+					requestPolicy: CHAT_COMPLETION_POLICY,
+					cache: COMPLETION_CACHE,
+				},
+				{ pattern: "/v1/models{,/**}", methods: ["GET"], price: "free" },
+			],
+			pricingModelPrefix: "openai/",
+		}
+	: undefined;
+
+const ANTHROPIC_UPSTREAM: UpstreamConfig | undefined = env.ANTHROPIC_API_KEY
+	? {
+			name: "anthropic",
+			label: "Anthropic",
+			mountPath: "/proxy/anthropic",
+			baseUrl: "https://api.anthropic.com",
+			defaultPath: "/v1/messages",
+			auth: { type: "header", name: "x-api-key", value: env.ANTHROPIC_API_KEY },
+			headers: {
+				allow: [
+					"content-type",
+					"accept",
+					"anthropic-version",
+					"anthropic-beta",
+				],
+				defaults: { "anthropic-version": "2023-06-01" },
+			},
+			pricing: [
+				{
+					pattern: "/v1/messages",
+					methods: ["POST"],
+					price: 0.05,
+					rateLimit: COMPLETION_RATE_LIMIT,
+					requestPolicy: ANTHROPIC_MESSAGES_POLICY,
+				},
+				{ pattern: "/v1/models{,/**}", methods: ["GET"], price: "free" },
+			],
+		}
+	: undefined;
+
+/**
+ * Every upstream the proxy fronts. OpenRouter keeps its own `/openrouter`
+ * routes; the rest are served by `/proxy/[upstream]`.
+ */
+export const UPSTREAMS: UpstreamConfig[] = [
+	OPENROUTER_UPSTREAM,
+	...[OPENAI_UPSTREAM, ANTHROPIC_UPSTREAM].filter(
+		(upstream): upstream is UpstreamConfig => upstream !== undefined,
+	),
+];
+
+export function findUpstream(mountPath: string) {
+	return UPSTREAMS.find((upstream) => upstream.mountPath === mountPath);
+}
@@ -0,0 +1,134 @@
+export interface CompletionUsage {
+	promptTokens: number;
+	completionTokens: number;
+}
+
+function parseUsage(value: unknown): CompletionUsage | undefined {
+	if (!value || typeof value !== "object" || !("usage" in value)) {
+		return undefined;
+	}
+
+	const { usage } = value as { usage: unknown };
+	if (!usage || typeof usage !== "object") {
+		return undefined;
+	}
+
+	const { prompt_tokens, completion_tokens } = usage as Record<string, unknown>;
+	if (
+		typeof prompt_tokens !== "number" ||
+		typeof completion_tokens !== "number"
+	) {
+		return undefined;
+	}
+
+	return {
+		promptTokens: prompt_tokens,
+		completionTokens: completion_tokens,
+	};
+}
+
+function parseJson(text: string): unknown {
+	try {
+		return JSON.parse(text);
+	} catch {
+		return undefined;
+	}
+}
+
+export function isEventStream(contentType: string | null) {
+	return contentType?.includes("text/event-stream") ?? false;
+}
+
+export interface StreamUsageState {
+	usage?: CompletionUsage;
+	/** Whether the terminating `data: [DONE]` line was seen. */
+	done: boolean;
+	/** Whether the upstream reported an error chunk mid-stream. */
+	failed: boolean;
+}
+
+function readStreamLine(line: string, state: StreamUsageState) {
+	if (!line.startsWith("data:")) {
+		return;
+	}
+
+	const data = line.slice("data:".length).trim();
+	if (data === "[DONE]") {
+		state.done = true;
+		return;
+	}
+
+	if (!data) {
+		return;
+	}
+
+	const payload = parseJson(data);
+	if (payload && typeof payload === "object" && "error" in payload) {
+		state.failed = true;
+	}
+	state.usage = parseUsage(payload) ?? state.usage;
+}
+
+/**
+ * Returns the usage reported in an SSE payload. OpenRouter sends it on the
+ * last `data:` chunk before `[DONE]`, so later chunks win.
+ */
+export function extractStreamUsage(text: string) {
+	const state: StreamUsageState = { done: false, failed: false };
+	for (const line of text.split(/\r?\n/)) {
+		readStreamLine(line, state);
+	}
+	return state.usage;
+}
+
+/**
+ * Tracks usage across SSE chunks as they are piped to the client, without
+ * holding on to the streamed body.
+ */
+export function createStreamUsageTracker() {
+	const decoder = new TextDecoder();
+	const state: StreamUsageState = { done: false, failed: false };
+	let pending = "";
+
+	const readLines = (text: string) => {
+		const lines = (pending + text).split(/\r?\n/);
+		pending = lines.pop() ?? "";
+		for (const line of lines) {
+			readStreamLine(line, state);
+		}
+	};
+
+	return {
+		write(chunk: Uint8Array) {
+			readLines(decoder.decode(chunk, { stream: true }));
+		},
+		end(): StreamUsageState {
+			readLines(`${decoder.decode()}\n`);
+			return state;
+		},
+	};
+}
+
+export function extractUsage(contentType: string | null, text: string) {
+	if (isEventStream(contentType)) {
+		return extractStreamUsage(text);
+	}
+
+	return parseUsage(parseJson(text));
+}
+
+/**
+ * Asks OpenRouter to include token usage in the response (including the
+ * final chunk of a stream) so the call can be settled on actual cost.
+ */
+export function withUsageAccounting(body: Record<string, unknown>) {
+	const usage =
+		body.usage && typeof body.usage === "object"
+			? (body.usage as Record<string, unknown>)
+			: {};
+
+	return {
+		...body,
+		usage: { ...usage, include: true },
+	};
+}
@@ -0,0 +1,42 @@
+import type { NextRequest } from "next/server";
+import { forwardUpstream } from "@/app/openrouter/proxy-handler";
+import { findUpstream } from "@/app/openrouter/upstreams";
+import { applyCorsHeaders, createCorsPreflightResponse } from "@/lib/cors";
+import { withRequestId } from "@/lib/logger";
+
+type RouteContext = {
+	params: Promise<{
+		upstream: string;
+		path?: string[];
+	}>;
+};
+
+export const runtime = "nodejs";
+
+async function forward(request: NextRequest, context: RouteContext) {
+	const params = await context.params;
+	const upstream = findUpstream(`/proxy/${params.upstream}`);
+	if (!upstream) {
+		return applyCorsHeaders(
+			request,
+			new Response(JSON.stringify({ error: "Unknown upstream" }), {
+				status: 404,
+				headers: { "Content-Type": "application/json" },
+			}),
+		);
+	}
+
+	return forwardUpstream(upstream, request, params.path ?? []);
+}
+
+export function OPTIONS(request: NextRequest) {
+	return createCorsPreflightResponse(request);
+}
+
+export function GET(request: NextRequest, context: RouteContext) {
+	return withRequestId(request, () => forward(request, context));
+}
+
+export function POST(request: NextRequest, context: RouteContext) {
+	return withRequestId(request, () => forward(request, context));
+}
@@ -0,0 +1,13 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+
+function digest(value: string) {
+	return createHash("sha256").update(value).digest();
+}
+
+/** Checks a `Bearer` token against `apiKey` in constant time. */
+export function isAuthorizedApiKey(request: Request, apiKey: string) {
+	const header = request.headers.get("authorization") ?? "";
+	const token = header.replace(/^Bearer\s+/i, "");
+	// Comparing digests keeps the check constant-time regardless of length.
+	return timingSafeEqual(digest(token), digest(apiKey));
+}
@@ -0,0 +1,92 @@
+import { mkdir, mkdtemp, readFile, rmdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+	type CreditSession,
+	createFileCreditSessionStore,
+} from "@/lib/credit-sessions";
+
+function createSession(id: string, balance: string): CreditSession {
+	return {
+		id,
+		network: "base-sepolia",
+		asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+		balance,
+		expiresAt: Date.now() + 60_000,
+	};
+}
+
+async function createStorePath() {
+	return join(await mkdtemp(join(tmpdir(), "credit-sessions-")), "s.jsonl");
+}
+
+describe("createFileCreditSessionStore", () => {
+	it("debits only what the balance covers and persists every change", async () => {
+		const path = await createStorePath();
+		const store = createFileCreditSessionStore(path);
+		await store.create(createSession("a", "100"));
+
+		expect(await store.debit("a", BigInt(30))).toBe(true);
+		expect(await store.debit("a", BigInt(100))).toBe(false);
+		await store.credit("a", BigInt(10));
+		expect((await store.get("a"))?.balance).toBe("80");
+
+		const reloaded = createFileCreditSessionStore(path);
+		expect((await reloaded.get("a"))?.balance).toBe("80");
+	});
+
+	it("keeps paid balances when a line is corrupt", async () => {
+		const path = await createStorePath();
+		const truncated = JSON.stringify(createSession("c", "5")).slice(0, 30);
+		await writeFile(
+			path,
+			[
+				JSON.stringify(createSession("a", "100")),
+				"{oops",
+				JSON.stringify(createSession("b", "50")),
+				JSON.stringify(createSession("a", "70")),
+				truncated,
+			].join("\n"),
+		);
+
+		const store = createFileCreditSessionStore(path);
+		expect((await store.get("a"))?.balance).toBe("70");
+		expect((await store.get("b"))?.balance).toBe("50");
+		expect(await store.debit("b", BigInt(20))).toBe(true);
+
+		const reloaded = createFileCreditSessionStore(path);
+		expect((await reloaded.get("b"))?.balance).toBe("30");
+		expect(await readFile(`${path}.corrupt`, "utf8")).toBe(
+			`{oops\n${truncated}\n`,
+		);
+	});
+
+	it("compacts the file to the live sessions on reload", async () => {
+		const path = await createStorePath();
+		const latest = createSession("a", "60");
+		await writeFile(
+			path,
+			[
+				JSON.stringify({ ...createSession("old", "1"), expiresAt: 0 }),
+				JSON.stringify(createSession("a", "100")),
+				JSON.stringify(latest),
+			].join("\n"),
+		);
+
+		const store = createFileCreditSessionStore(path);
+		expect(await store.get("old")).toBeUndefined();
+		expect(await readFile(path, "utf8")).toBe(`${JSON.stringify(latest)}\n`);
+	});
+
+	it("retries a load that failed instead of failing every call", async () => {
+		const path = await createStorePath();
+		await mkdir(path);
+		const store = createFileCreditSessionStore(path);
+		await expect(store.get("a")).rejects.toThrow();
+
+		await rmdir(path);
+		await store.create(createSession("a", "100"));
+		expect((await store.get("a"))?.balance).toBe("100");
+	});
+});
@@ -0,0 +1,231 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Network } from "x402/types";
+import { env } from "@/lib/env";
+import { readJsonLines, rewriteJsonLines } from "@/lib/json-lines";
+import { createLogger } from "@/lib/logger";
+import { createTokenSigner, type SignedTokenClaims } from "@/lib/signed-tokens";
+
+const log = createLogger("credit-sessions");
+
+/**
+ * A prepaid balance funded by one x402 settlement and drawn down by later
+ * calls. Amounts are atomic units of `asset` on `network`.
+ */
+export interface CreditSession {
+	id: string;
+	payer?: string;
+	network: Network;
+	asset: string;
+	balance: string;
+	expiresAt: number;
+}
+
+/**
+ * Holds session balances. The built-in stores each keep their own copy,
+ * so a session only works on the instance that opened it; sharing one
+ * needs a store whose `debit` checks and subtracts in a single atomic
+ * step.
+ */
+export interface CreditSessionStore {
+	create(session: CreditSession): Promise<void>;
+	get(id: string): Promise<CreditSession | undefined>;
+	/** Subtracts `amount`; resolves false (and changes nothing) when short. */
+	debit(id: string, amount: bigint): Promise<boolean>;
+	credit(id: string, amount: bigint): Promise<void>;
+}
+
+/** Loses every balance on restart; for tests and throwaway demos only. */
+export function createMemoryCreditSessionStore(): CreditSessionStore {
+	const sessions = new Map<string, CreditSession>();
+
+	const getLive = (id: string) => {
+		const session = sessions.get(id);
+		if (session && session.expiresAt <= Date.now()) {
+			sessions.delete(id);
+			return undefined;
+		}
+		return session;
+	};
+
+	return {
+		async create(session) {
+			sessions.set(session.id, { ...session });
+		},
+		async get(id) {
+			const session = getLive(id);
+			return session ? { ...session } : undefined;
+		},
+		async debit(id, amount) {
+			const session = getLive(id);
+			if (!session || BigInt(session.balance) < amount) {
+				return false;
+			}
+			session.balance = (BigInt(session.balance) - amount).toString();
+			return true;
+		},
+		async credit(id, amount) {
+			const session = getLive(id);
+			if (session) {
+				session.balance = (BigInt(session.balance) + amount).toString();
+			}
+		},
+	};
+}
+
+function isCreditSession(value: unknown): value is CreditSession {
+	const session = value as CreditSession | null;
+	return (
+		typeof session === "object" &&
+		session !== null &&
+		typeof session.id === "string" &&
+		typeof session.balance === "string" &&
+		typeof session.expiresAt === "number"
+	);
+}
+
+/** Appends between rewrites of the file down to the live sessions. */
+const COMPACT_AFTER_LINES = 1_000;
+
+/**
+ * Keeps balances in memory and appends every change to a JSON Lines file,
+ * so prepaid credit survives restarts and deploys. The latest line per
+ * session wins on reload. The file is rewritten to the live sessions on
+ * reload and every `COMPACT_AFTER_LINES` appends, and lines that don't
+ * parse are moved to `<path>.corrupt` rather than failing the load.
+ * Balances change in memory before the line is written, so only one
+ * instance may use a file at a time.
+ */
+export function createFileCreditSessionStore(path: string): CreditSessionStore {
+	const memory = createMemoryCreditSessionStore();
+	const ids = new Set<string>();
+
+	let writes: Promise<unknown> = Promise.resolve();
+	let directoryCreated = false;
+	let appendedLines = 0;
+	let loaded: Promise<void> | undefined;
+
+	/** Live sessions, forgetting the ids of expired ones. */
+	const snapshot = async () => {
+		const sessions: CreditSession[] = [];
+		for (const id of ids) {
+			const session = await memory.get(id);
+			if (session) {
+				sessions.push(session);
+			} else {
+				ids.delete(id);
+			}
+		}
+		return sessions;
+	};
+
+	const load = () => {
+		loaded ??= (async () => {
+			const { records } = await readJsonLines(path, isCreditSession, log);
+			const sessions = new Map<string, CreditSession>();
+			for (const session of records) {
+				sessions.set(session.id, session);
+			}
+
+			for (const session of sessions.values()) {
+				ids.add(session.id);
+				await memory.create(session);
+			}
+
+			if (records.length > 0) {
+				await rewriteJsonLines(path, await snapshot());
+			}
+		})().catch((error) => {
+			// Left for the next caller to retry rather than failing every
+			// call until a restart.
+			loaded = undefined;
+			throw error;
+		});
+		return loaded;
+	};
+
+	const persist = async (id: string) => {
+		const session = await memory.get(id);
+		if (!session) {
+			return;
+		}
+
+		const write = writes.then(async () => {
+			if (!directoryCreated) {
+				await mkdir(dirname(path), { recursive: true });
+				directoryCreated = true;
+			}
+			if (appendedLines + 1 < COMPACT_AFTER_LINES) {
+				await appendFile(path, `${JSON.stringify(session)}\n`, "utf8");
+				appendedLines += 1;
+				return;
+			}
+			// Written from memory, so it already holds this change.
+			await rewriteJsonLines(path, await snapshot());
+			appendedLines = 0;
+		});
+		writes = write.catch(() => undefined);
+
+		try {
+			await write;
+		} catch (error) {
+			log.error("Failed to persist session", { sessionId: id, error });
+		}
+	};
+
+	return {
+		async create(session) {
+			await load();
+			ids.add(session.id);
+			await memory.create(session);
+			await persist(session.id);
+		},
+		async get(id) {
+			await load();
+			return memory.get(id);
+		},
+		async debit(id, amount) {
+			await load();
+			if (!(await memory.debit(id, amount))) {
+				return false;
+			}
+			await persist(id);
+			return true;
+		},
+		async credit(id, amount) {
+			await load();
+			await memory.credit(id, amount);
+			await persist(id);
+		},
+	};
+}
+
+export const creditSessionStore = createFileCreditSessionStore(
+	env.CREDIT_SESSION_STORE_PATH,
+);
+
+export const CREDIT_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface SessionTokenClaims extends SignedTokenClaims {
+	sid: string;
+}
+
+const sessionTokens = createTokenSigner<SessionTokenClaims>(
+	"x402-credit-session",
+);
+
+export function createCreditSessionId() {
+	return randomUUID();
+}
+
+/** `<claims>.<hmac>`, both base64url. Balances stay server-side. */
+export function signCreditSessionToken(session: CreditSession) {
+	return sessionTokens.sign({ sid: session.id, exp: session.expiresAt });
+}
+
+/** Resolves the session id of a valid, unexpired token. */
+export function verifyCreditSessionToken(token: string) {
+	const claims = sessionTokens.verify(token);
+	return typeof claims?.sid === "string" ? claims.sid : undefined;
+}
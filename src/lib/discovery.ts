@@ -0,0 +1,38 @@
+import type { PaymentRequirements } from "x402/types";
+import { X402_VERSION } from "@/lib/payment-engine";
+
+/** An accepted payment option; metered entries omit the per-request amount. */
+export type DiscoveryAccept =
+	| PaymentRequirements
+	| Omit<PaymentRequirements, "maxAmountRequired">;
+
+/** One paid HTTP route or MCP tool, resource or prompt. */
+export interface DiscoveryEntry {
+	type: "http" | "mcp";
+	/** URL the payment is sent to. */
+	resource: string;
+	/** HTTP method, or the MCP method that buys it. */
+	method: string;
+	/** MCP tool or prompt name, or resource URI. */
+	name?: string;
+	description: string;
+	/** USD; "metered" or "dynamic" when it depends on the request. */
+	price: number | "metered" | "dynamic";
+	accepts: DiscoveryAccept[];
+	inputSchema?: unknown;
+	outputSchema?: unknown;
+}
+
+export interface DiscoveryManifest {
+	x402Version: number;
+	resources: DiscoveryEntry[];
+}
+
+export function createDiscoveryManifest(
+	...groups: DiscoveryEntry[][]
+): DiscoveryManifest {
+	return {
+		x402Version: X402_VERSION,
+		resources: groups.flat(),
+	};
+}
@@ -1,5 +1,25 @@
+import { NetworkSchema, SupportedEVMNetworks } from "x402/types";
 import { z } from "zod";
 
+const evmNetworkSchema = NetworkSchema.refine(
+	(network) => SupportedEVMNetworks.includes(network),
+	"must be an EVM network",
+);
+
+const addressSchema = z
+	.string()
+	.regex(/^0x[0-9a-fA-F]{40}$/, "must be a 0x-prefixed EVM address");
+
+const commaSeparatedSchema = z
+	.string()
+	.optional()
+	.transform((value) =>
+		(value ?? "")
+			.split(",")
+			.map((item) => item.trim())
+			.filter(Boolean),
+	);
+
 const envSchema = z.object({
 	SERVICE_PRIVATE_KEY: z
 		.string()
@@ -8,15 +28,80 @@ const envSchema = z.object({
 			"SERVICE_PRIVATE_KEY must be a 32-byte 0x-prefixed hex string",
 		),
 	NETWORK: z.enum(["base", "base-sepolia"]).default("base-sepolia"),
+	// Comma-separated networks offered (in USDC) alongside NETWORK.
+	ADDITIONAL_NETWORKS: commaSeparatedSchema.pipe(z.array(evmNetworkSchema)),
 	ALLOWED_ORIGIN: z.string().url().optional(),
 	OPENROUTER_API_KEY: z.string().min(1),
+	// Optional upstreams, mounted under /proxy/<name> when their key is set.
+	OPENAI_API_KEY: z.string().min(1).optional(),
+	OPENAI_BASE_URL: z.string().url().default("https://api.openai.com"),
+	ANTHROPIC_API_KEY: z.string().min(1).optional(),
+	// "local" verifies signatures and simulates settlement in-process.
+	FACILITATOR: z.enum(["remote", "local"]).default("remote"),
+	// Starting USDC balance of every payer on the local facilitator.
+	LOCAL_FACILITATOR_BALANCE: z.coerce.number().positive().default(100),
+	PAYMENT_LEDGER_PATH: z.string().min(1).default(".data/payment-ledger.jsonl"),
+	RECEIPTS_API_KEY: z.string().min(16).optional(),
+	// When set, /metrics requires it as a bearer token.
+	METRICS_API_KEY: z.string().min(16).optional(),
+	LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]).default("info"),
+	// "queued" returns paid responses after verification and settles later.
+	SETTLEMENT_MODE: z.enum(["inline", "queued"]).default("inline"),
+	SETTLEMENT_QUEUE_PATH: z
+		.string()
+		.min(1)
+		.default(".data/settlement-queue.jsonl"),
+	SETTLEMENT_MAX_ATTEMPTS: z.coerce.number().int().positive().default(8),
+	CREDIT_SESSION_STORE_PATH: z
+		.string()
+		.min(1)
+		.default(".data/credit-sessions.jsonl"),
+	// Signs credit session tokens; derived from SERVICE_PRIVATE_KEY if unset.
+	SESSION_SECRET: z.string().min(32).optional(),
+	// How long a price quote from /openrouter/quote or quote_tool_call is honored.
+	QUOTE_TTL_SECONDS: z.coerce.number().int().positive().default(60),
+	// Caches temperature-0 completions for this long; unset disables the cache.
+	RESPONSE_CACHE_TTL_SECONDS: z.coerce.number().int().positive().optional(),
+	RESPONSE_CACHE_HIT_PRICE_USD: z.coerce.number().positive().default(0.0001),
+	RESPONSE_CACHE_MAX_ENTRIES: z.coerce.number().int().positive().default(1000),
+	RESPONSE_CACHE_MAX_BYTES: z.coerce
+		.number()
+		.int()
+		.positive()
+		.default(50 * 1024 * 1024),
+	// Comma-separated payer addresses; when set, only these may pay.
+	PAYER_ALLOWLIST: commaSeparatedSchema.pipe(z.array(addressSchema)),
+	// Comma-separated payer addresses that are always refused.
+	PAYER_DENYLIST: commaSeparatedSchema.pipe(z.array(addressSchema)),
 });
 
 const parsed = envSchema.parse({
 	SERVICE_PRIVATE_KEY: process.env.SERVICE_PRIVATE_KEY,
 	NETWORK: process.env.NETWORK,
+	ADDITIONAL_NETWORKS: process.env.ADDITIONAL_NETWORKS,
 	ALLOWED_ORIGIN: process.env.ALLOWED_ORIGIN,
 	OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY,
+	OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+	OPENAI_BASE_URL: process.env.OPENAI_BASE_URL,
+	ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+	FACILITATOR: process.env.FACILITATOR,
+	LOCAL_FACILITATOR_BALANCE: process.env.LOCAL_FACILITATOR_BALANCE,
+	PAYMENT_LEDGER_PATH: process.env.PAYMENT_LEDGER_PATH,
+	RECEIPTS_API_KEY: process.env.RECEIPTS_API_KEY,
+	METRICS_API_KEY: process.env.METRICS_API_KEY,
+	LOG_LEVEL: process.env.LOG_LEVEL,
+	SETTLEMENT_MODE: process.env.SETTLEMENT_MODE,
+	SETTLEMENT_QUEUE_PATH: process.env.SETTLEMENT_QUEUE_PATH,
+	SETTLEMENT_MAX_ATTEMPTS: process.env.SETTLEMENT_MAX_ATTEMPTS,
+	CREDIT_SESSION_STORE_PATH: process.env.CREDIT_SESSION_STORE_PATH,
+	SESSION_SECRET: process.env.SESSION_SECRET,
+	QUOTE_TTL_SECONDS: process.env.QUOTE_TTL_SECONDS,
+	RESPONSE_CACHE_TTL_SECONDS: process.env.RESPONSE_CACHE_TTL_SECONDS,
+	RESPONSE_CACHE_HIT_PRICE_USD: process.env.RESPONSE_CACHE_HIT_PRICE_USD,
+	RESPONSE_CACHE_MAX_ENTRIES: process.env.RESPONSE_CACHE_MAX_ENTRIES,
+	RESPONSE_CACHE_MAX_BYTES: process.env.RESPONSE_CACHE_MAX_BYTES,
+	PAYER_ALLOWLIST: process.env.PAYER_ALLOWLIST,
+	PAYER_DENYLIST: process.env.PAYER_DENYLIST,
 });
 
 export const env = parsed;
@@ -0,0 +1,44 @@
+import { getAddress, verifyTypedData } from "viem";
+import { getNetworkId } from "x402/shared";
+import { evm, type PaymentPayload, type PaymentRequirements } from "x402/types";
+
+/**
+ * Checks the EIP-3009 `transferWithAuthorization` signature of an `exact`
+ * EVM payload against the asset domain named by the requirement. Resolves
+ * to false for non-EVM payloads and malformed signatures.
+ */
+export async function verifyExactEvmSignature(
+	payment: PaymentPayload,
+	requirement: PaymentRequirements,
+) {
+	if (!("authorization" in payment.payload)) {
+		return false;
+	}
+
+	const { authorization, signature } = payment.payload;
+
+	try {
+		return await verifyTypedData({
+			address: getAddress(authorization.from),
+			types: evm.authorizationTypes,
+			primaryType: evm.authorizationPrimaryType,
+			domain: {
+				name: requirement.extra?.name,
+				version: requirement.extra?.version,
+				chainId: getNetworkId(requirement.network),
+				verifyingContract: getAddress(requirement.asset),
+			},
+			message: {
+				from: getAddress(authorization.from),
+				to: getAddress(authorization.to),
+				value: BigInt(authorization.value),
+				validAfter: BigInt(authorization.validAfter),
+				validBefore: BigInt(authorization.validBefore),
+				nonce: authorization.nonce as `0x${string}`,
+			},
+			signature: signature as `0x${string}`,
+		});
+	} catch {
+		return false;
+	}
+}
@@ -0,0 +1,45 @@
+import type {
+	FacilitatorConfig,
+	PaymentPayload,
+	PaymentRequirements,
+	SettleResponse,
+	VerifyResponse,
+} from "x402/types";
+import { useFacilitator } from "x402/verify";
+import { env } from "@/lib/env";
+import { createLocalFacilitator } from "@/lib/local-facilitator";
+
+export interface FacilitatorClient {
+	verify(
+		payload: PaymentPayload,
+		requirements: PaymentRequirements,
+	): Promise<VerifyResponse>;
+	settle(
+		payload: PaymentPayload,
+		requirements: PaymentRequirements,
+	): Promise<SettleResponse>;
+}
+
+let localFacilitator: ReturnType<typeof createLocalFacilitator> | undefined;
+
+/** Process-wide local facilitator so HTTP and MCP payments share balances. */
+export function getLocalFacilitator() {
+	localFacilitator ??= createLocalFacilitator({
+		initialBalance: BigInt(Math.round(env.LOCAL_FACILITATOR_BALANCE * 1e6)),
+	});
+	return localFacilitator;
+}
+
+/**
+ * Returns the in-process facilitator when `FACILITATOR=local`, otherwise a
+ * client for the configured (or default x402.org) facilitator service.
+ */
+export function resolveFacilitator(
+	config?: FacilitatorConfig,
+): FacilitatorClient {
+	if (env.FACILITATOR === "local") {
+		return getLocalFacilitator();
+	}
+
+	return useFacilitator(config);
+}
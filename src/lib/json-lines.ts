@@ -0,0 +1,75 @@
+import { appendFile, readFile, rename, writeFile } from "node:fs/promises";
+import type { Logger } from "@/lib/logger";
+
+export interface JsonLinesContents<T> {
+	records: T[];
+	/** Lines that did not parse as a record, in file order. */
+	corrupt: string[];
+}
+
+/**
+ * Reads a JSON Lines file one record per line. A line that does not parse,
+ * typically a write cut short by a crash, is skipped, logged and copied to
+ * `<path>.corrupt` instead of failing the whole read. A missing file reads
+ * as empty.
+ */
+export async function readJsonLines<T>(
+	path: string,
+	isRecord: (value: unknown) => value is T,
+	log: Logger,
+): Promise<JsonLinesContents<T>> {
+	let contents: string;
+	try {
+		contents = await readFile(path, "utf8");
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return { records: [], corrupt: [] };
+		}
+		throw error;
+	}
+
+	const records: T[] = [];
+	const corrupt: string[] = [];
+	for (const [index, line] of contents.split("\n").entries()) {
+		if (line.trim().length === 0) {
+			continue;
+		}
+
+		let value: unknown;
+		try {
+			value = JSON.parse(line);
+		} catch {
+			value = undefined;
+		}
+		if (isRecord(value)) {
+			records.push(value);
+		} else {
+			log.warn("Skipped corrupt line", { path, line: index + 1 });
+			corrupt.push(line);
+		}
+	}
+
+	if (corrupt.length > 0) {
+		await appendFile(
+			`${path}.corrupt`,
+			corrupt.map((line) => `${line}\n`).join(""),
+			"utf8",
+		);
+	}
+
+	return { records, corrupt };
+}
+
+/**
+ * Replaces the file with `records` through a temporary file, so a crash
+ * leaves either the old contents or the new ones.
+ */
+export async function rewriteJsonLines(path: string, records: unknown[]) {
+	const temporary = `${path}.tmp`;
+	await writeFile(
+		temporary,
+		records.map((record) => `${JSON.stringify(record)}\n`).join(""),
+		"utf8",
+	);
+	await rename(temporary, path);
+}
@@ -0,0 +1,172 @@
+import { getAddress, keccak256, toHex } from "viem";
+import type {
+	PaymentPayload,
+	PaymentRequirements,
+	SettleResponse,
+	VerifyResponse,
+} from "x402/types";
+import { verifyExactEvmSignature } from "@/lib/exact-evm-signature";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("local-facilitator");
+
+type InvalidReason = NonNullable<VerifyResponse["invalidReason"]>;
+
+export interface LocalFacilitatorOptions {
+	/** Atomic balance every payer starts with, per network and asset. */
+	initialBalance: bigint;
+}
+
+function balanceKey(network: string, asset: string, address: string) {
+	return `${network}:${asset.toLowerCase()}:${address.toLowerCase()}`;
+}
+
+/**
+ * In-process stand-in for an x402 facilitator. It checks `exact` EVM
+ * payloads the way a real facilitator would (recipient, amount, validity
+ * window, EIP-3009 signature, nonce reuse) and "settles" by moving balances
+ * in memory and returning a fake transaction hash. Nothing touches a chain,
+ * so paid flows can run offline and without CDP credentials.
+ *
+ * As on-chain `transferWithAuthorization` does, settlement moves the full
+ * signed value, whatever `maxAmountRequired` says.
+ */
+export function createLocalFacilitator(options: LocalFacilitatorOptions) {
+	const balances = new Map<string, bigint>();
+	const usedNonces = new Set<string>();
+
+	const getBalance = (network: string, asset: string, address: string) =>
+		balances.get(balanceKey(network, asset, address)) ?? options.initialBalance;
+
+	const setBalance = (
+		network: string,
+		asset: string,
+		address: string,
+		amount: bigint,
+	) => {
+		balances.set(balanceKey(network, asset, address), amount);
+	};
+
+	const check = async (
+		payload: PaymentPayload,
+		requirements: PaymentRequirements,
+	): Promise<InvalidReason | undefined> => {
+		if (payload.scheme !== "exact" || requirements.scheme !== "exact") {
+			return "invalid_scheme";
+		}
+		if (payload.network !== requirements.network) {
+			return "invalid_network";
+		}
+		if (!("authorization" in payload.payload)) {
+			return "invalid_payload";
+		}
+
+		const { authorization } = payload.payload;
+		const now = Math.floor(Date.now() / 1000);
+
+		if (getAddress(authorization.to) !== getAddress(requirements.payTo)) {
+			return "invalid_exact_evm_payload_recipient_mismatch";
+		}
+		if (BigInt(authorization.value) < BigInt(requirements.maxAmountRequired)) {
+			return "invalid_exact_evm_payload_authorization_value";
+		}
+		if (Number(authorization.validAfter) > now) {
+			return "invalid_exact_evm_payload_authorization_valid_after";
+		}
+		if (Number(authorization.validBefore) <= now) {
+			return "invalid_exact_evm_payload_authorization_valid_before";
+		}
+		if (!(await verifyExactEvmSignature(payload, requirements))) {
+			return "invalid_exact_evm_payload_signature";
+		}
+		if (usedNonces.has(authorization.nonce.toLowerCase())) {
+			return "invalid_transaction_state";
+		}
+
+		const balance = getBalance(
+			requirements.network,
+			requirements.asset,
+			authorization.from,
+		);
+		if (balance < BigInt(authorization.value)) {
+			return "insufficient_funds";
+		}
+
+		return undefined;
+	};
+
+	const payerOf = (payload: PaymentPayload) =>
+		"authorization" in payload.payload
+			? payload.payload.authorization.from
+			: undefined;
+
+	const verify = async (
+		payload: PaymentPayload,
+		requirements: PaymentRequirements,
+	): Promise<VerifyResponse> => {
+		const invalidReason = await check(payload, requirements);
+		return {
+			isValid: invalidReason === undefined,
+			invalidReason,
+			payer: payerOf(payload),
+		};
+	};
+
+	const settle = async (
+		payload: PaymentPayload,
+		requirements: PaymentRequirements,
+	): Promise<SettleResponse> => {
+		const errorReason = await check(payload, requirements);
+		if (errorReason || !("authorization" in payload.payload)) {
+			return {
+				success: false,
+				errorReason: errorReason ?? "invalid_payload",
+				payer: payerOf(payload),
+				transaction: "",
+				network: requirements.network,
+			};
+		}
+
+		const { authorization } = payload.payload;
+		const amount = BigInt(authorization.value);
+		const { network, asset, payTo } = requirements;
+
+		usedNonces.add(authorization.nonce.toLowerCase());
+		setBalance(
+			network,
+			asset,
+			authorization.from,
+			getBalance(network, asset, authorization.from) - amount,
+		);
+		setBalance(
+			network,
+			asset,
+			payTo,
+			getBalance(network, asset, payTo) + amount,
+		);
+
+		const transaction = keccak256(
+			toHex(`${network}:${authorization.from}:${authorization.nonce}`),
+		);
+		log.info("Settled payment", {
+			amount,
+			asset,
+			from: authorization.from,
+			payTo,
+			transaction,
+		});
+
+		return {
+			success: true,
+			payer: authorization.from,
+			transaction,
+			network,
+		};
+	};
+
+	return {
+		verify,
+		settle,
+		getBalance,
+	};
+}
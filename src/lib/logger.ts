@@ -0,0 +1,150 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { env } from "@/lib/env";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+	debug(msg: string, fields?: LogFields): void;
+	info(msg: string, fields?: LogFields): void;
+	warn(msg: string, fields?: LogFields): void;
+	error(msg: string, fields?: LogFields): void;
+	/** A logger that adds `fields` to every line. */
+	child(fields: LogFields): Logger;
+}
+
+interface RequestContext {
+	requestId: string;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+	debug: 10,
+	info: 20,
+	warn: 30,
+	error: 40,
+};
+
+export const X_REQUEST_ID_HEADER = "X-Request-Id";
+
+const REDACTED = "[redacted]";
+/** Field names (headers included) whose values are never logged. */
+const SECRET_KEY_PATTERN =
+	/^(authorization|proxy-authorization|cookie|set-cookie|x-api-key|x-payment|x-payment-session|x-payment-quote|signature|token|secret|api[-_]?key|private[-_]?key)$/i;
+const BEARER_PATTERN = /\b(Bearer|Basic)\s+[^\s"',]+/gi;
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/** The caller's `X-Request-Id` when it is sane, or a fresh one. */
+export function resolveRequestId(headers: Headers) {
+	const requestId = headers.get(X_REQUEST_ID_HEADER);
+	return requestId && REQUEST_ID_PATTERN.test(requestId)
+		? requestId
+		: randomUUID();
+}
+
+/** Tags every line logged while `fn` runs, including async work it starts. */
+export function runWithRequestId<T>(requestId: string, fn: () => T) {
+	return requestContext.run({ requestId }, fn);
+}
+
+export function getRequestId() {
+	return requestContext.getStore()?.requestId;
+}
+
+/**
+ * Runs a route handler under the request's id and echoes the id back in
+ * `X-Request-Id`, so clients can quote it when reporting a problem.
+ */
+export async function withRequestId(
+	request: Request,
+	handler: () => Promise<Response>,
+) {
+	const requestId = resolveRequestId(request.headers);
+	const response = await runWithRequestId(requestId, handler);
+	// Copied because responses from `fetch` have immutable headers.
+	const headers = new Headers(response.headers);
+	headers.set(X_REQUEST_ID_HEADER, requestId);
+	return new Response(response.body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers,
+	});
+}
+
+/**
+ * Copies `value` for logging with credentials and payment signatures
+ * replaced, wherever they are nested. Errors keep their name and message.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+	if (typeof value === "string") {
+		return value.replace(BEARER_PATTERN, `$1 ${REDACTED}`);
+	}
+	if (typeof value === "bigint") {
+		return value.toString();
+	}
+	if (!value || typeof value !== "object") {
+		return value;
+	}
+	if (depth > 8) {
+		return "[truncated]";
+	}
+	if (value instanceof Error) {
+		return {
+			name: value.name,
+			message: redact(value.message),
+			stack: value.stack,
+		};
+	}
+	if (value instanceof Headers) {
+		return redact(Object.fromEntries(value.entries()), depth);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => redact(item, depth + 1));
+	}
+
+	return Object.fromEntries(
+		Object.entries(value).map(([key, item]) => [
+			key,
+			SECRET_KEY_PATTERN.test(key) ? REDACTED : redact(item, depth + 1),
+		]),
+	);
+}
+
+/**
+ * One JSON object per line, with the logger's `name`, the current request
+ * id and any fields, all passed through `redact`. Lines below `LOG_LEVEL`
+ * are dropped.
+ */
+export function createLogger(name: string, bindings: LogFields = {}): Logger {
+	const write = (level: LogLevel, msg: string, fields: LogFields = {}) => {
+		if (LEVELS[level] < LEVELS[env.LOG_LEVEL]) {
+			return;
+		}
+
+		const line = JSON.stringify({
+			time: new Date().toISOString(),
+			level,
+			logger: name,
+			requestId: getRequestId(),
+			msg: redact(msg),
+			...(redact({ ...bindings, ...fields }) as LogFields),
+		});
+		if (level === "error") {
+			console.error(line);
+		} else if (level === "warn") {
+			console.warn(line);
+		} else {
+			console.log(line);
+		}
+	};
+
+	return {
+		debug: (msg, fields) => write("debug", msg, fields),
+		info: (msg, fields) => write("info", msg, fields),
+		warn: (msg, fields) => write("warn", msg, fields),
+		error: (msg, fields) => write("error", msg, fields),
+		child: (fields) => createLogger(name, { ...bindings, ...fields }),
+	};
+}
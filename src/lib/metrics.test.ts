@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { toResourceLabel } from "@/lib/metrics";
+
+describe("toResourceLabel", () => {
+	it("drops the client-chosen origin and query of an HTTP resource", () => {
+		expect(
+			toResourceLabel("https://attacker.example/openrouter/api/v1/x?a=1"),
+		).toBe("/openrouter/api/v1/x");
+	});
+
+	it("keeps other URIs apart from their query", () => {
+		expect(toResourceLabel("docs://guide/intro?lang=en")).toBe(
+			"docs://guide/intro",
+		);
+	});
+});
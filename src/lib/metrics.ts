@@ -0,0 +1,184 @@
+type Labels = Record<string, string>;
+
+interface MetricFamily {
+	render(): string;
+}
+
+/** Upstream latency buckets, in seconds; completions can run for minutes. */
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+function escapeLabelValue(value: string) {
+	return value
+		.replace(/\\/g, "\\\\")
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels) {
+	const pairs = Object.entries(labels).map(
+		([name, value]) => `${name}="${escapeLabelValue(value)}"`,
+	);
+	return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatHeader(name: string, help: string, type: string) {
+	return `# HELP ${name} ${help}\n# TYPE ${name} ${type}\n`;
+}
+
+/**
+ * A minimal in-process Prometheus registry: labelled counters and
+ * histograms, rendered in the text exposition format. Series are kept per
+ * instance and reset on restart, as Prometheus expects of counters.
+ */
+export function createMetricsRegistry() {
+	const families: MetricFamily[] = [];
+
+	const pickLabels = (labelNames: string[], labels: Labels) =>
+		Object.fromEntries(
+			labelNames.map((labelName) => [labelName, labels[labelName] ?? ""]),
+		);
+
+	const counter = (name: string, help: string, labelNames: string[]) => {
+		const series = new Map<string, { labels: Labels; value: number }>();
+
+		families.push({
+			render: () =>
+				formatHeader(name, help, "counter") +
+				[...series.values()]
+					.map(
+						({ labels, value }) => `${name}${formatLabels(labels)} ${value}\n`,
+					)
+					.join(""),
+		});
+
+		return {
+			inc(labels: Labels, value = 1) {
+				const selected = pickLabels(labelNames, labels);
+				const key = JSON.stringify(selected);
+				const current = series.get(key) ?? { labels: selected, value: 0 };
+				current.value += value;
+				series.set(key, current);
+			},
+		};
+	};
+
+	const histogram = (
+		name: string,
+		help: string,
+		labelNames: string[],
+		buckets: number[],
+	) => {
+		const series = new Map<
+			string,
+			{ labels: Labels; counts: number[]; sum: number; count: number }
+		>();
+
+		families.push({
+			render: () =>
+				formatHeader(name, help, "histogram") +
+				[...series.values()]
+					.map(({ labels, counts, sum, count }) => {
+						const bucketLines = buckets.map(
+							(bound, index) =>
+								`${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}\n`,
+						);
+						return [
+							...bucketLines,
+							`${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}\n`,
+							`${name}_sum${formatLabels(labels)} ${sum}\n`,
+							`${name}_count${formatLabels(labels)} ${count}\n`,
+						].join("");
+					})
+					.join(""),
+		});
+
+		return {
+			observe(labels: Labels, value: number) {
+				const selected = pickLabels(labelNames, labels);
+				const key = JSON.stringify(selected);
+				const current = series.get(key) ?? {
+					labels: selected,
+					counts: buckets.map(() => 0),
+					sum: 0,
+					count: 0,
+				};
+				buckets.forEach((bound, index) => {
+					if (value <= bound) {
+						current.counts[index] += 1;
+					}
+				});
+				current.sum += value;
+				current.count += 1;
+				series.set(key, current);
+			},
+		};
+	};
+
+	const render = () => families.map((family) => family.render()).join("");
+
+	return {
+		counter,
+		histogram,
+		render,
+	};
+}
+
+export type MetricsRegistry = ReturnType<typeof createMetricsRegistry>;
+
+/** Served at `/metrics`. */
+export const metrics = createMetricsRegistry();
+
+/**
+ * Resources reduced to their path, to keep label values bounded. An HTTP
+ * resource's origin comes from the client's Host header, so it is dropped
+ * along with the query string.
+ */
+export function toResourceLabel(resource: string) {
+	if (URL.canParse(resource)) {
+		const url = new URL(resource);
+		if (url.protocol === "http:" || url.protocol === "https:") {
+			return url.pathname;
+		}
+	}
+	return resource.split("?")[0];
+}
+
+export const paymentMetrics = {
+	paymentRequired: metrics.counter(
+		"x402_payment_required_total",
+		"402 Payment Required responses issued.",
+		["transport", "resource"],
+	),
+	verifications: metrics.counter(
+		"x402_verifications_total",
+		"Payment verifications by outcome (valid, invalid or error).",
+		["transport", "outcome"],
+	),
+	settlements: metrics.counter(
+		"x402_settlements_total",
+		"Settlements by outcome (settled, failed or queued). Queued jobs are counted again when they finish.",
+		["transport", "outcome"],
+	),
+	revenue: metrics.counter(
+		"x402_revenue_atomic_total",
+		"Settled amount in atomic units of the asset.",
+		["transport", "resource", "asset", "network"],
+	),
+};
+
+export const proxyMetrics = {
+	upstreamDuration: metrics.histogram(
+		"proxy_upstream_request_duration_seconds",
+		"Time until the upstream answered, by status code (error when it could not be reached).",
+		["upstream", "method", "status"],
+		LATENCY_BUCKETS,
+	),
+};
+
+export const mcpMetrics = {
+	calls: metrics.counter(
+		"mcp_paid_calls_total",
+		"Paid MCP tool, resource and prompt calls by outcome (paid, payment_required, error or settlement_failed).",
+		["method", "name", "outcome"],
+	),
+};
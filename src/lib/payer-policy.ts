@@ -0,0 +1,102 @@
+import { getAddress } from "viem";
+import { env } from "@/lib/env";
+import { createLogger } from "@/lib/logger";
+import type { PaymentLedgerEntry } from "@/lib/payment-ledger";
+
+const log = createLogger("payer-policy");
+
+/** What a payer is about to pay for, as seen by the screening hook. */
+export interface PayerScreeningRequest {
+	payer: string;
+	/** Atomic amount authorized for the request. */
+	amount: string;
+	asset: string;
+	network: string;
+	resource: string;
+	transport: PaymentLedgerEntry["transport"];
+}
+
+export type PayerPolicyDecision =
+	| { allowed: true }
+	| { allowed: false; reason: string };
+
+/**
+ * Compliance check run before a payment is verified, e.g. a sanctions
+ * screening API. Throwing rejects the payment.
+ */
+export type PayerScreeningHook = (
+	request: PayerScreeningRequest,
+) => PayerPolicyDecision | Promise<PayerPolicyDecision>;
+
+export interface PayerPolicyOptions {
+	/** Only these payers may pay; anyone when empty or omitted. */
+	allowlist?: string[];
+	/** Payers that are always refused, even when allowlisted. */
+	denylist?: string[];
+	screen?: PayerScreeningHook;
+}
+
+function normalizeAddresses(addresses: string[] = []) {
+	return new Set<string>(addresses.map((address) => getAddress(address)));
+}
+
+/**
+ * Decides whether a payer may pay at all: the static lists first, then the
+ * screening hook. Every decision is logged, and a failing hook refuses the
+ * payment rather than letting it through unscreened.
+ */
+export function createPayerPolicy(options: PayerPolicyOptions = {}) {
+	const allowlist = normalizeAddresses(options.allowlist);
+	const denylist = normalizeAddresses(options.denylist);
+	const { screen } = options;
+
+	const decide = async (
+		request: PayerScreeningRequest,
+	): Promise<PayerPolicyDecision> => {
+		let payer: string;
+		try {
+			payer = getAddress(request.payer);
+		} catch {
+			return { allowed: false, reason: "Payer address is invalid" };
+		}
+
+		if (denylist.has(payer)) {
+			return { allowed: false, reason: "Payer is on the denylist" };
+		}
+		if (allowlist.size > 0 && !allowlist.has(payer)) {
+			return { allowed: false, reason: "Payer is not on the allowlist" };
+		}
+		if (!screen) {
+			return { allowed: true };
+		}
+
+		try {
+			return await screen({ ...request, payer });
+		} catch (error) {
+			return {
+				allowed: false,
+				reason: `Payer screening failed: ${error instanceof Error ? error.message : error}`,
+			};
+		}
+	};
+
+	const check = async (request: PayerScreeningRequest) => {
+		const decision = await decide(request);
+		log.info(decision.allowed ? "Allowed payer" : "Refused payer", {
+			...request,
+			reason: decision.allowed ? undefined : decision.reason,
+		});
+		return decision;
+	};
+
+	return {
+		check,
+	};
+}
+
+export type PayerPolicy = ReturnType<typeof createPayerPolicy>;
+
+export const payerPolicy = createPayerPolicy({
+	allowlist: env.PAYER_ALLOWLIST,
+	denylist: env.PAYER_DENYLIST,
+});
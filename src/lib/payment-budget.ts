@@ -0,0 +1,136 @@
+import { getAddress } from "viem";
+import type { PaymentRequirements } from "x402/types";
+import { currentDay } from "@/lib/utils";
+
+/**
+ * Spend caps for a paying client, in atomic units of the paid asset
+ * (1 USDC = 1_000_000). Assets differ in decimals, so spend is tracked and
+ * capped separately for each network and asset. Omitted caps are unlimited.
+ */
+export interface PaymentBudgetLimits {
+	/** Defaults to 0.1 USDC, matching `x402-fetch`. */
+	maxPerRequest?: bigint;
+	/** Total per asset for the lifetime of the budget. */
+	maxPerSession?: bigint;
+	/** Total per asset per UTC day. */
+	maxPerDay?: bigint;
+	/** Recipients that may be paid; any recipient when omitted. */
+	allowedPayTo?: string[];
+}
+
+export interface PaymentBudgetReservation {
+	amount: bigint;
+	/** Counts the reserved amount as spent. */
+	commit(): void;
+	/** Returns the whole reservation, e.g. when the payment was not settled. */
+	release(): void;
+}
+
+export type PaymentBudgetResult =
+	| { ok: true; reservation: PaymentBudgetReservation }
+	| { ok: false; error: string };
+
+const DEFAULT_MAX_PER_REQUEST = BigInt(100_000);
+
+function assetKey(network: string, asset: string) {
+	return `${network}:${asset.toLowerCase()}`;
+}
+
+/**
+ * Tracks what a client has spent and refuses payments that would exceed its
+ * caps. Amounts are reserved before signing so concurrent requests cannot
+ * overshoot, then committed or released once the outcome is known.
+ */
+export function createPaymentBudget(limits: PaymentBudgetLimits = {}) {
+	const maxPerRequest = limits.maxPerRequest ?? DEFAULT_MAX_PER_REQUEST;
+	const allowedPayTo = limits.allowedPayTo?.map((address) =>
+		getAddress(address),
+	);
+
+	const sessionSpent = new Map<string, bigint>();
+	const daySpent = new Map<string, bigint>();
+
+	const getSessionSpent = (asset: string) =>
+		sessionSpent.get(asset) ?? BigInt(0);
+	const getDaySpent = (asset: string, day: string) =>
+		daySpent.get(`${day}:${asset}`) ?? BigInt(0);
+
+	const adjust = (asset: string, day: string, delta: bigint) => {
+		sessionSpent.set(asset, getSessionSpent(asset) + delta);
+		daySpent.set(`${day}:${asset}`, getDaySpent(asset, day) + delta);
+	};
+
+	/** Why `requirement` may not be paid, or undefined when it may. */
+	const check = (requirement: PaymentRequirements) => {
+		const amount = BigInt(requirement.maxAmountRequired);
+		const asset = assetKey(requirement.network, requirement.asset);
+
+		if (allowedPayTo && !allowedPayTo.includes(getAddress(requirement.payTo))) {
+			return `Recipient ${requirement.payTo} is not in the payTo allowlist`;
+		}
+		if (amount > maxPerRequest) {
+			return `Payment of ${amount} exceeds the per-request limit of ${maxPerRequest}`;
+		}
+		if (
+			limits.maxPerSession !== undefined &&
+			getSessionSpent(asset) + amount > limits.maxPerSession
+		) {
+			return `Payment of ${amount} would exceed the session limit of ${limits.maxPerSession}`;
+		}
+		if (
+			limits.maxPerDay !== undefined &&
+			getDaySpent(asset, currentDay()) + amount > limits.maxPerDay
+		) {
+			return `Payment of ${amount} would exceed the daily limit of ${limits.maxPerDay}`;
+		}
+
+		return undefined;
+	};
+
+	const reserve = (requirement: PaymentRequirements): PaymentBudgetResult => {
+		const error = check(requirement);
+		if (error) {
+			return { ok: false, error };
+		}
+
+		const amount = BigInt(requirement.maxAmountRequired);
+		const asset = assetKey(requirement.network, requirement.asset);
+		const day = currentDay();
+		let settled = false;
+		adjust(asset, day, amount);
+
+		return {
+			ok: true,
+			reservation: {
+				amount,
+				commit() {
+					settled = true;
+				},
+				release() {
+					if (settled) {
+						return;
+					}
+					settled = true;
+					adjust(asset, day, -amount);
+				},
+			},
+		};
+	};
+
+	/** What has been spent of `asset` on `network`, in its atomic units. */
+	const getSpent = (network: string, asset: string) => {
+		const key = assetKey(network, asset);
+		return {
+			session: getSessionSpent(key),
+			today: getDaySpent(key, currentDay()),
+		};
+	};
+
+	return {
+		check,
+		reserve,
+		getSpent,
+	};
+}
+
+export type PaymentBudget = ReturnType<typeof createPaymentBudget>;
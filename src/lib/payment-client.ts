@@ -0,0 +1,161 @@
+import type { LocalAccount } from "viem";
+import { createPaymentHeader } from "x402/client";
+import { safeBase64Decode } from "x402/shared";
+import type { Network, PaymentRequirements } from "x402/types";
+import {
+	createPaymentBudget,
+	type PaymentBudget,
+	type PaymentBudgetLimits,
+	type PaymentBudgetReservation,
+} from "@/lib/payment-budget";
+import type { PaymentReceipt } from "@/lib/payment-engine";
+
+export interface PaymentClientOptions {
+	account: LocalAccount;
+	/** Networks the account holds funds on; any EVM network when omitted. */
+	networks?: Network[];
+	/** Caps for this client, or a budget shared with other clients. */
+	budget?: PaymentBudgetLimits | PaymentBudget;
+	/** Called with each requirement once a payment for it has been signed. */
+	onPayment?(requirement: PaymentRequirements): void;
+}
+
+export interface SignedPayment {
+	ok: true;
+	/** Base64 payload for `X-PAYMENT` or `_meta["x402/payment"]`. */
+	payment: string;
+	requirement: PaymentRequirements;
+	reservation: PaymentBudgetReservation;
+}
+
+export type SignedPaymentResult = SignedPayment | { ok: false; error: string };
+
+export interface PayOptions {
+	/** Asked before signing; resolve false to decline the payment. */
+	confirm?(requirement: PaymentRequirements): boolean | Promise<boolean>;
+}
+
+function isPaymentBudget(
+	budget: PaymentBudgetLimits | PaymentBudget,
+): budget is PaymentBudget {
+	return "reserve" in budget;
+}
+
+export function decodePaymentReceipt(
+	encoded: string,
+): PaymentReceipt | undefined {
+	try {
+		return JSON.parse(safeBase64Decode(encoded)) as PaymentReceipt;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Settles the budget reservation for a paid call: keeps it when a receipt
+ * confirms the payment (or it was otherwise charged), releases it when
+ * nothing was settled. An `exact` payment transfers the full signed amount,
+ * so that is what counts, whatever amount the receipt reports.
+ */
+export function settleReservation(
+	reservation: PaymentBudgetReservation,
+	receipt: PaymentReceipt | undefined,
+	charged: boolean,
+) {
+	if (receipt?.success || charged) {
+		reservation.commit();
+	} else {
+		reservation.release();
+	}
+}
+
+/**
+ * Buyer side of x402: picks the cheapest requirement the budget allows,
+ * reserves it and signs an `exact` EVM payment for it. Transports (fetch,
+ * MCP) only decide where the requirements come from and the payment goes.
+ */
+export function createPaymentClient(options: PaymentClientOptions) {
+	const { account, networks, onPayment } = options;
+	const budget =
+		options.budget && isPaymentBudget(options.budget)
+			? options.budget
+			: createPaymentBudget(options.budget);
+
+	const selectRequirement = (accepts: PaymentRequirements[]) => {
+		const errors: string[] = [];
+		const candidates = accepts
+			.filter(
+				(requirement) =>
+					requirement.scheme === "exact" &&
+					(!networks || networks.includes(requirement.network)),
+			)
+			.filter((requirement) => {
+				const error = budget.check(requirement);
+				if (error) {
+					errors.push(error);
+				}
+				return !error;
+			})
+			.sort((a, b) => {
+				const difference =
+					BigInt(a.maxAmountRequired) - BigInt(b.maxAmountRequired);
+				return difference < BigInt(0) ? -1 : difference > BigInt(0) ? 1 : 0;
+			});
+
+		return { requirement: candidates[0], errors };
+	};
+
+	const pay = async (
+		accepts: PaymentRequirements[],
+		x402Version: number,
+		payOptions: PayOptions = {},
+	): Promise<SignedPaymentResult> => {
+		const { requirement, errors } = selectRequirement(accepts);
+		if (!requirement) {
+			return {
+				ok: false,
+				error:
+					errors[0] ?? "No payment requirement matches this client's networks",
+			};
+		}
+
+		const reserved = budget.reserve(requirement);
+		if (!reserved.ok) {
+			return reserved;
+		}
+
+		try {
+			if (payOptions.confirm && !(await payOptions.confirm(requirement))) {
+				reserved.reservation.release();
+				return { ok: false, error: "Payment was declined" };
+			}
+
+			const payment = await createPaymentHeader(
+				account,
+				x402Version,
+				requirement,
+			);
+			onPayment?.(requirement);
+			return {
+				ok: true,
+				payment,
+				requirement,
+				reservation: reserved.reservation,
+			};
+		} catch (error) {
+			reserved.reservation.release();
+			return {
+				ok: false,
+				error: `Failed to pay: ${error instanceof Error ? error.message : error}`,
+			};
+		}
+	};
+
+	return {
+		account,
+		budget,
+		pay,
+	};
+}
+
+export type PaymentClient = ReturnType<typeof createPaymentClient>;
@@ -0,0 +1,146 @@
+import { mkdir, mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createPaymentHeader } from "x402/client";
+import type { PaymentRequirements, Resource } from "x402/types";
+import { describe, expect, it } from "vitest";
+import {
+	createPaymentEngine,
+	type PaymentEngineOptions,
+	type PaymentRequestConfig,
+} from "@/lib/payment-engine";
+import type { PaymentLedger, PaymentLedgerEntry } from "@/lib/payment-ledger";
+import { createMemoryNonceStore } from "@/lib/payment-nonce-store";
+import { createFileSettlementQueue } from "@/lib/settlement-queue";
+
+const config: PaymentRequestConfig = {
+	price: "$0.01",
+	network: "base-sepolia",
+	payTo: privateKeyToAccount(generatePrivateKey()).address,
+	resource: "https://proxy.test/paid" as Resource,
+};
+
+function createMemoryLedger() {
+	const entries: PaymentLedgerEntry[] = [];
+	const ledger: PaymentLedger = {
+		async record(record) {
+			entries.push({
+				id: String(entries.length),
+				timestamp: new Date().toISOString(),
+				...record,
+			});
+		},
+		async query() {
+			return entries;
+		},
+	};
+	return { entries, ledger };
+}
+
+function createEngine(options: Partial<PaymentEngineOptions> = {}) {
+	const { entries, ledger } = createMemoryLedger();
+	const engine = createPaymentEngine({
+		transport: "http",
+		nonceStore: createMemoryNonceStore(),
+		ledger,
+		...options,
+	});
+	return { engine, entries };
+}
+
+/** Signs a fresh payment for whatever the engine asks for. */
+async function signPayment(engine: ReturnType<typeof createEngine>["engine"]) {
+	const required = await engine.processPayment(config, undefined);
+	if (required.ok || !required.accepts) {
+		throw new Error("Expected payment requirements");
+	}
+	const [requirement] = required.accepts as [PaymentRequirements];
+	return createPaymentHeader(
+		privateKeyToAccount(generatePrivateKey()),
+		1,
+		requirement,
+	);
+}
+
+describe("nonce replay", () => {
+	it("rejects a payload that has already been settled", async () => {
+		const { engine } = createEngine();
+		const payment = await signPayment(engine);
+
+		const first = await engine.processPayment(config, payment);
+		expect(first.ok).toBe(true);
+		if (!first.ok) return;
+		const settlement = await first.settle();
+		expect(settlement).toMatchObject({ ok: true, receipt: { success: true } });
+
+		const replay = await engine.processPayment(config, payment);
+		expect(replay).toMatchObject({
+			ok: false,
+			status: 402,
+			error: "Payment authorization has already been used",
+		});
+	});
+
+	it("rejects a payload that is still in flight", async () => {
+		const { engine } = createEngine();
+		const payment = await signPayment(engine);
+
+		const first = await engine.processPayment(config, payment);
+		expect(first.ok).toBe(true);
+
+		const concurrent = await engine.processPayment(config, payment);
+		expect(concurrent).toMatchObject({ ok: false, status: 402 });
+	});
+
+	it("accepts the payload again once it is released unsettled", async () => {
+		const { engine, entries } = createEngine();
+		const payment = await signPayment(engine);
+
+		const first = await engine.processPayment(config, payment);
+		if (!first.ok) throw new Error(first.error);
+		await first.release("Client cancelled the stream");
+		expect(entries.at(-1)).toMatchObject({
+			type: "released",
+			error: "Client cancelled the stream",
+		});
+
+		const retry = await engine.processPayment(config, payment);
+		expect(retry.ok).toBe(true);
+	});
+
+	it("keeps a settled payload spent if it is released afterwards", async () => {
+		const { engine, entries } = createEngine();
+		const payment = await signPayment(engine);
+
+		const first = await engine.processPayment(config, payment);
+		if (!first.ok) throw new Error(first.error);
+		await first.settle();
+		await first.release("Responded with status 500");
+		expect(entries.map((entry) => entry.type)).not.toContain("released");
+
+		const replay = await engine.processPayment(config, payment);
+		expect(replay.ok).toBe(false);
+	});
+});
+
+describe("queued settlement", () => {
+	it("leaves the payload unspent when it cannot be queued", async () => {
+		// A queue file that is a directory can never be loaded.
+		const path = join(await mkdtemp(join(tmpdir(), "payment-engine-")), "q");
+		await mkdir(path);
+		const { engine, entries } = createEngine({
+			settlementQueue: createFileSettlementQueue({ path, maxAttempts: 1 }),
+		});
+		const payment = await signPayment(engine);
+
+		const first = await engine.processPayment(config, payment);
+		if (!first.ok) throw new Error(first.error);
+		const settlement = await first.settle();
+		expect(settlement).toMatchObject({ ok: false, status: 402 });
+		expect(entries.at(-1)).toMatchObject({ type: "failure" });
+
+		const retry = await engine.processPayment(config, payment);
+		expect(retry.ok).toBe(true);
+	});
+});
@@ -0,0 +1,614 @@
+import { type Address, getAddress } from "viem";
+import { exact } from "x402/schemes";
+import {
+	findMatchingPaymentRequirements,
+	processPriceToAtomicAmount,
+} from "x402/shared";
+import {
+	type ERC20TokenAmount,
+	type FacilitatorConfig,
+	type PaymentMiddlewareConfig,
+	type PaymentPayload,
+	type PaymentRequirements,
+	type Resource,
+	type RouteConfig,
+	SupportedEVMNetworks,
+} from "x402/types";
+import { env } from "@/lib/env";
+import { verifyExactEvmSignature } from "@/lib/exact-evm-signature";
+import { resolveFacilitator } from "@/lib/facilitator";
+import { paymentMetrics, toResourceLabel } from "@/lib/metrics";
+import {
+	type PayerPolicy,
+	payerPolicy as defaultPayerPolicy,
+} from "@/lib/payer-policy";
+import {
+	getPaymentAmount,
+	getPaymentPayer,
+	type PaymentLedger,
+	type PaymentLedgerEntry,
+	type PaymentLedgerRecord,
+	paymentLedger,
+} from "@/lib/payment-ledger";
+import {
+	getPaymentNonceKey,
+	getPaymentNonceTtl,
+	type PaymentNonceStore,
+	paymentNonceStore,
+} from "@/lib/payment-nonce-store";
+import {
+	type RateLimiter,
+	type RateLimitLease,
+	type RateLimitTarget,
+	rateLimiter as defaultRateLimiter,
+} from "@/lib/rate-limiter";
+import {
+	type SettlementJob,
+	type SettlementQueue,
+	settlementQueue as defaultSettlementQueue,
+} from "@/lib/settlement-queue";
+
+export const X402_VERSION = 1;
+
+const DEFAULT_MAX_TIMEOUT_SECONDS = 300;
+
+export type PaymentErrorMessages = NonNullable<
+	PaymentMiddlewareConfig["errorMessages"]
+>;
+
+export interface PaymentOption extends Pick<RouteConfig, "price" | "network"> {
+	/** Defaults to the config's `payTo`. */
+	payTo?: Address;
+}
+
+/** What a single paid request costs and how it is described to the payer. */
+export interface PaymentRequestConfig
+	extends Pick<RouteConfig, "price" | "network"> {
+	payTo: Address;
+	/**
+	 * Extra networks/assets offered next to the primary `price` and
+	 * `network`. Every option is listed in `accepts`.
+	 */
+	accepts?: PaymentOption[];
+	resource: Resource;
+	description?: string;
+	mimeType?: string;
+	maxTimeoutSeconds?: number;
+	outputSchema?: Record<string, unknown>;
+	errorMessages?: PaymentErrorMessages;
+	/** Model or tool name recorded alongside the payment in the ledger. */
+	subject?: string;
+	/**
+	 * Labels the resource in metrics instead of `resource`, for resources
+	 * that differ per request, such as URIs expanded from a template.
+	 */
+	resourceLabel?: string;
+	/** Checked against the verified payer before anything is settled. */
+	rateLimit?: RateLimitTarget;
+	/**
+	 * Settles before responding even when a settlement queue is configured,
+	 * for payments that fund something that must not exist unpaid, such as
+	 * credit.
+	 */
+	settleInline?: boolean;
+}
+
+export interface PaymentFailure {
+	ok: false;
+	/** HTTP status the transport should map the failure to. */
+	status: number;
+	error: string;
+	accepts?: PaymentRequirements[];
+	payer?: string;
+	/** Seconds until a rate-limited payer may retry. */
+	retryAfter?: number;
+}
+
+export interface PaymentReceipt {
+	success: true;
+	/** On-chain hash, or `queue:<job id>` while a queued settlement is pending. */
+	transaction: string;
+	network: string;
+	payer?: string;
+	amount: string;
+	queued?: true;
+}
+
+export type PaymentReceiptResult =
+	| { ok: true; receipt?: PaymentReceipt }
+	| PaymentFailure;
+
+export interface VerifiedPayment {
+	ok: true;
+	payment: PaymentPayload;
+	requirements: PaymentRequirements;
+	accepts: PaymentRequirements[];
+	payer?: string;
+	/** Captures the full signed amount, or queues its capture. */
+	settle(): Promise<PaymentReceiptResult>;
+	/**
+	 * Frees the payload for reuse when the request ends without settling,
+	 * recording `reason` in the ledger.
+	 */
+	release(reason: string): Promise<void>;
+}
+
+export type PaymentResult = PaymentFailure | VerifiedPayment;
+
+export interface PaymentEngineOptions {
+	transport: PaymentLedgerEntry["transport"];
+	facilitator?: FacilitatorConfig;
+	/** Defaults to the process-wide store shared by every transport. */
+	nonceStore?: PaymentNonceStore;
+	ledger?: PaymentLedger;
+	/**
+	 * Settles in the background instead of before the response. Defaults to
+	 * the shared queue when `SETTLEMENT_MODE=queued`.
+	 */
+	settlementQueue?: SettlementQueue;
+	/** Defaults to the process-wide limiter shared by every transport. */
+	rateLimiter?: RateLimiter;
+	/** Defaults to the allow/deny lists from `PAYER_ALLOWLIST`/`PAYER_DENYLIST`. */
+	payerPolicy?: PayerPolicy;
+}
+
+function createPaymentRequirement(
+	config: PaymentRequestConfig,
+	option: PaymentOption,
+): PaymentFailure | PaymentRequirements {
+	const { price, network, payTo = config.payTo } = option;
+
+	const atomicAmountForAsset = processPriceToAtomicAmount(price, network);
+	if ("error" in atomicAmountForAsset) {
+		return { ok: false, status: 500, error: atomicAmountForAsset.error };
+	}
+
+	if (!SupportedEVMNetworks.includes(network)) {
+		return {
+			ok: false,
+			status: 500,
+			error: `Unsupported network: ${network}`,
+		};
+	}
+
+	const { maxAmountRequired, asset } = atomicAmountForAsset;
+
+	return {
+		scheme: "exact",
+		network,
+		maxAmountRequired,
+		resource: config.resource,
+		description: config.description ?? "",
+		mimeType: config.mimeType ?? "application/json",
+		payTo: getAddress(payTo),
+		maxTimeoutSeconds: config.maxTimeoutSeconds ?? DEFAULT_MAX_TIMEOUT_SECONDS,
+		asset: getAddress(asset.address),
+		outputSchema: config.outputSchema,
+		extra: (asset as ERC20TokenAmount["asset"]).eip712,
+	};
+}
+
+export function createPaymentRequirements(
+	config: PaymentRequestConfig,
+): PaymentFailure | PaymentRequirements[] {
+	const options: PaymentOption[] = [
+		{ price: config.price, network: config.network },
+		...(config.accepts ?? []),
+	];
+
+	const requirements: PaymentRequirements[] = [];
+	for (const option of options) {
+		const requirementOrFailure = createPaymentRequirement(config, option);
+		if (!("scheme" in requirementOrFailure)) {
+			return requirementOrFailure;
+		}
+		requirements.push(requirementOrFailure);
+	}
+
+	return requirements;
+}
+
+/**
+ * Picks the requirement the payer actually signed. Options on the same
+ * network can only be told apart by the asset, which is not part of the
+ * payload, so the signature is checked against each candidate's domain.
+ */
+async function findSignedPaymentRequirement(
+	paymentRequirements: PaymentRequirements[],
+	payment: PaymentPayload,
+) {
+	const candidates = paymentRequirements.filter(
+		(requirement) =>
+			requirement.scheme === payment.scheme &&
+			requirement.network === payment.network,
+	);
+	if (candidates.length <= 1) {
+		return findMatchingPaymentRequirements(candidates, payment);
+	}
+
+	for (const requirement of candidates) {
+		if (await verifyExactEvmSignature(payment, requirement)) {
+			return requirement;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Transport-agnostic x402 flow: builds requirements, decodes and matches the
+ * payload, guards against replays, verifies, settles and records every step
+ * in the ledger. Transports only adapt where the payment comes from and how
+ * failures and receipts are returned.
+ */
+export function createPaymentEngine(options: PaymentEngineOptions) {
+	const {
+		transport,
+		facilitator,
+		nonceStore = paymentNonceStore,
+		ledger = paymentLedger,
+		settlementQueue = env.SETTLEMENT_MODE === "queued"
+			? defaultSettlementQueue
+			: undefined,
+		rateLimiter = defaultRateLimiter,
+		payerPolicy = defaultPayerPolicy,
+	} = options;
+	const { verify, settle } = resolveFacilitator(facilitator);
+
+	const recordRevenue = (
+		requirement: PaymentRequirements,
+		amount: string,
+		resourceLabel = toResourceLabel(requirement.resource),
+	) =>
+		paymentMetrics.revenue.inc(
+			{
+				transport,
+				resource: resourceLabel,
+				asset: requirement.asset,
+				network: requirement.network,
+			},
+			Number(amount),
+		);
+
+	// A no-op when another engine already settles this transport's jobs.
+	settlementQueue?.register(transport, {
+		settle: (job) => settle(job.payment, job.requirement),
+		complete: (job) => {
+			const settled = job.status === "settled";
+			const amount =
+				getPaymentAmount(job.payment) ?? job.requirement.maxAmountRequired;
+			paymentMetrics.settlements.inc({
+				transport,
+				outcome: settled ? "settled" : "failed",
+			});
+			if (settled) {
+				recordRevenue(job.requirement, amount, job.resourceLabel);
+			}
+			return ledger.record({
+				type: job.status === "settled" ? "settlement" : "failure",
+				transport,
+				payer: getPaymentPayer(job.payment),
+				resource: job.requirement.resource,
+				amount,
+				asset: job.requirement.asset,
+				network: job.requirement.network,
+				transaction: job.transaction,
+				subject: job.subject,
+				error: job.status === "dead" ? job.lastError : undefined,
+			});
+		},
+	});
+
+	const processPayment = async (
+		config: PaymentRequestConfig,
+		encodedPayment: unknown,
+	): Promise<PaymentResult> => {
+		const paymentRequirements = createPaymentRequirements(config);
+		if (!Array.isArray(paymentRequirements)) {
+			return paymentRequirements;
+		}
+
+		const errorMessages = config.errorMessages ?? {};
+		const resourceLabel =
+			config.resourceLabel ?? toResourceLabel(config.resource);
+		const fail = (
+			error: string,
+			additional: Partial<PaymentFailure> = {},
+		): PaymentFailure => {
+			const failure: PaymentFailure = {
+				ok: false,
+				status: 402,
+				error,
+				accepts: paymentRequirements,
+				...additional,
+			};
+			if (failure.status === 402) {
+				paymentMetrics.paymentRequired.inc({
+					transport,
+					resource: resourceLabel,
+				});
+			}
+			return failure;
+		};
+
+		if (encodedPayment === undefined || encodedPayment === null) {
+			return fail(errorMessages.paymentRequired || "Payment is required");
+		}
+
+		let decodedPayment: PaymentPayload;
+		try {
+			if (typeof encodedPayment !== "string") {
+				throw new Error("Payment must be a base64 encoded string");
+			}
+			decodedPayment = exact.evm.decodePayment(encodedPayment);
+			decodedPayment.x402Version = X402_VERSION;
+		} catch (error) {
+			return fail(
+				errorMessages.invalidPayment ||
+					(error instanceof Error ? error.message : "Invalid payment"),
+			);
+		}
+
+		const selectedRequirement = await findSignedPaymentRequirement(
+			paymentRequirements,
+			decodedPayment,
+		);
+
+		if (!selectedRequirement) {
+			return fail(
+				errorMessages.noMatchingRequirements ||
+					"Unable to find matching payment requirements",
+			);
+		}
+
+		// Verification guarantees it covers `maxAmountRequired`.
+		const signedAmount =
+			getPaymentAmount(decodedPayment) ?? selectedRequirement.maxAmountRequired;
+
+		const recordLedger = (
+			entry: Pick<PaymentLedgerRecord, "type"> & Partial<PaymentLedgerRecord>,
+		) =>
+			ledger.record({
+				transport,
+				payer: getPaymentPayer(decodedPayment),
+				resource: selectedRequirement.resource,
+				amount: signedAmount,
+				asset: selectedRequirement.asset,
+				network: selectedRequirement.network,
+				subject: config.subject,
+				...entry,
+			});
+
+		// Screened on the signed `from` address, before anything is verified
+		// or the payload is reserved.
+		const claimedPayer = getPaymentPayer(decodedPayment);
+		const decision = await payerPolicy.check({
+			payer: claimedPayer ?? "",
+			amount: selectedRequirement.maxAmountRequired,
+			asset: selectedRequirement.asset,
+			network: selectedRequirement.network,
+			resource: selectedRequirement.resource,
+			transport,
+		});
+		if (!decision.allowed) {
+			const error = `Payer is not permitted: ${decision.reason}`;
+			await recordLedger({ type: "failure", error });
+			// Paying again would not help, so no requirements are offered.
+			return fail(error, {
+				status: 403,
+				accepts: undefined,
+				payer: claimedPayer,
+			});
+		}
+
+		const nonceKey = getPaymentNonceKey(decodedPayment);
+		// Held until the authorization expires rather than for a fixed time, so
+		// a long stream can't outlive its reservation and let the payload be
+		// replayed before it settles.
+		const reserved = await nonceStore.reserve(
+			nonceKey,
+			getPaymentNonceTtl(decodedPayment, selectedRequirement.maxTimeoutSeconds),
+		);
+		if (!reserved) {
+			const error = "Payment authorization has already been used";
+			await recordLedger({ type: "failure", error });
+			return fail(error);
+		}
+
+		const release = () => nonceStore.release(nonceKey);
+
+		let verification: Awaited<ReturnType<typeof verify>>;
+		try {
+			verification = await verify(decodedPayment, selectedRequirement);
+		} catch (error) {
+			const message = `Verification failed: ${error instanceof Error ? error.message : error}`;
+			paymentMetrics.verifications.inc({ transport, outcome: "error" });
+			await release();
+			await recordLedger({ type: "failure", error: message });
+			return fail(message, { status: 500 });
+		}
+
+		paymentMetrics.verifications.inc({
+			transport,
+			outcome: verification.isValid ? "valid" : "invalid",
+		});
+		if (!verification.isValid) {
+			await release();
+			await recordLedger({
+				type: "failure",
+				payer: verification.payer,
+				error: verification.invalidReason ?? "Payment verification failed",
+			});
+			return fail(
+				errorMessages.verificationFailed ||
+					verification.invalidReason ||
+					"Payment verification failed",
+				{ payer: verification.payer },
+			);
+		}
+
+		let lease: RateLimitLease | undefined;
+		if (config.rateLimit) {
+			const payer = verification.payer ?? getPaymentPayer(decodedPayment);
+			const limited = rateLimiter.acquire({
+				...config.rateLimit,
+				payer: payer ?? "unknown",
+				amount: BigInt(signedAmount),
+			});
+			if (!limited.ok) {
+				await release();
+				await recordLedger({ type: "failure", payer, error: limited.error });
+				return fail(limited.error, {
+					status: 429,
+					payer,
+					retryAfter: limited.retryAfter,
+				});
+			}
+			lease = limited.lease;
+		}
+
+		const releasePayment = async () => {
+			lease?.release();
+			await release();
+		};
+
+		await recordLedger({ type: "verification", payer: verification.payer });
+
+		// Settling and releasing are each final; whichever comes first wins.
+		let finished = false;
+
+		const settlePayment = async (): Promise<PaymentReceiptResult> => {
+			if (finished) {
+				return { ok: true };
+			}
+			finished = true;
+
+			if (settlementQueue && !config.settleInline) {
+				let job: SettlementJob;
+				try {
+					job = await settlementQueue.enqueue({
+						transport,
+						payment: decodedPayment,
+						requirement: selectedRequirement,
+						subject: config.subject,
+						resourceLabel: config.resourceLabel,
+					});
+				} catch (error) {
+					// Nothing will collect this payment, so the payer keeps it.
+					const message = `Failed to queue settlement: ${error instanceof Error ? error.message : error}`;
+					paymentMetrics.settlements.inc({ transport, outcome: "failed" });
+					await releasePayment();
+					await recordLedger({
+						type: "failure",
+						amount: signedAmount,
+						error: message,
+					});
+					return fail(errorMessages.settlementFailed || message);
+				}
+
+				// The payload is spent from here on, whatever the queue's outcome.
+				await nonceStore.consume(
+					nonceKey,
+					getPaymentNonceTtl(
+						decodedPayment,
+						selectedRequirement.maxTimeoutSeconds,
+					),
+				);
+				lease?.commit();
+				paymentMetrics.settlements.inc({ transport, outcome: "queued" });
+
+				return {
+					ok: true,
+					receipt: {
+						success: true,
+						transaction: `queue:${job.id}`,
+						network: selectedRequirement.network,
+						payer: verification.payer,
+						amount: signedAmount,
+						queued: true,
+					},
+				};
+			}
+
+			try {
+				const settlement = await settle(decodedPayment, selectedRequirement);
+				if (!settlement.success) {
+					paymentMetrics.settlements.inc({ transport, outcome: "failed" });
+					await releasePayment();
+					await recordLedger({
+						type: "failure",
+						amount: signedAmount,
+						error: settlement.errorReason ?? "Settlement was not successful",
+					});
+					return { ok: true };
+				}
+
+				await nonceStore.consume(
+					nonceKey,
+					getPaymentNonceTtl(
+						decodedPayment,
+						selectedRequirement.maxTimeoutSeconds,
+					),
+				);
+				lease?.commit();
+				paymentMetrics.settlements.inc({ transport, outcome: "settled" });
+				recordRevenue(selectedRequirement, signedAmount, resourceLabel);
+				await recordLedger({
+					type: "settlement",
+					payer: settlement.payer,
+					amount: signedAmount,
+					transaction: settlement.transaction,
+				});
+
+				return {
+					ok: true,
+					receipt: {
+						success: true,
+						transaction: settlement.transaction,
+						network: settlement.network,
+						payer: settlement.payer,
+						amount: signedAmount,
+					},
+				};
+			} catch (error) {
+				const message =
+					error instanceof Error ? error.message : "Settlement failed";
+				paymentMetrics.settlements.inc({ transport, outcome: "failed" });
+				await releasePayment();
+				await recordLedger({
+					type: "failure",
+					amount: signedAmount,
+					error: message,
+				});
+				return fail(errorMessages.settlementFailed || message);
+			}
+		};
+
+		return {
+			ok: true,
+			payment: decodedPayment,
+			requirements: selectedRequirement,
+			accepts: paymentRequirements,
+			payer: verification.payer,
+			settle: settlePayment,
+			release: async (reason) => {
+				if (finished) {
+					return;
+				}
+				finished = true;
+				await releasePayment();
+				await recordLedger({
+					type: "released",
+					payer: verification.payer,
+					error: reason,
+				});
+			},
+		};
+	};
+
+	return {
+		processPayment,
+	};
+}
+
+export type PaymentEngine = ReturnType<typeof createPaymentEngine>;
@@ -0,0 +1,165 @@
+import { randomUUID } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import { createInterface } from "node:readline";
+import type { PaymentPayload } from "x402/types";
+import { env } from "@/lib/env";
+import { createLogger } from "@/lib/logger";
+
+const log = createLogger("payment-ledger");
+
+export type PaymentLedgerEventType =
+	| "verification"
+	| "settlement"
+	| "failure"
+	| "released";
+
+export interface PaymentLedgerEntry {
+	id: string;
+	timestamp: string;
+	type: PaymentLedgerEventType;
+	transport: "http" | "mcp";
+	payer?: string;
+	resource: string;
+	/** Atomic amount: authorized for verifications, captured for settlements. */
+	amount: string;
+	asset: string;
+	network: string;
+	transaction?: string;
+	/** Model or tool name the payment was for. */
+	subject?: string;
+	/** Why the payment failed, or why it was released unsettled. */
+	error?: string;
+}
+
+export type PaymentLedgerRecord = Omit<PaymentLedgerEntry, "id" | "timestamp">;
+
+export interface PaymentLedgerFilter {
+	payer?: string;
+	resource?: string;
+	type?: PaymentLedgerEventType;
+	from?: Date;
+	to?: Date;
+	/** Most recent matches to return; defaults to `DEFAULT_QUERY_LIMIT`. */
+	limit?: number;
+}
+
+const DEFAULT_QUERY_LIMIT = 1000;
+
+export interface PaymentLedger {
+	record(entry: PaymentLedgerRecord): Promise<void>;
+	query(filter?: PaymentLedgerFilter): Promise<PaymentLedgerEntry[]>;
+}
+
+export function getPaymentPayer(payment: PaymentPayload) {
+	return "authorization" in payment.payload
+		? payment.payload.authorization.from
+		: undefined;
+}
+
+/**
+ * The atomic amount the payer signed over. An `exact` authorization is
+ * always transferred in full, so this is what settlement captures.
+ */
+export function getPaymentAmount(payment: PaymentPayload) {
+	return "authorization" in payment.payload
+		? payment.payload.authorization.value
+		: undefined;
+}
+
+function matchesFilter(entry: PaymentLedgerEntry, filter: PaymentLedgerFilter) {
+	if (
+		filter.payer &&
+		entry.payer?.toLowerCase() !== filter.payer.toLowerCase()
+	) {
+		return false;
+	}
+	if (filter.resource && entry.resource !== filter.resource) {
+		return false;
+	}
+	if (filter.type && entry.type !== filter.type) {
+		return false;
+	}
+
+	const timestamp = Date.parse(entry.timestamp);
+	if (filter.from && timestamp < filter.from.getTime()) {
+		return false;
+	}
+	if (filter.to && timestamp > filter.to.getTime()) {
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * Append-only JSON Lines ledger. Writes are chained so concurrent records
+ * never interleave within a line. The directory is created on the first
+ * write rather than on import, and queries stream the file, holding only
+ * the matches they return.
+ */
+export function createFileLedger(path: string): PaymentLedger {
+	let writes: Promise<unknown> = Promise.resolve();
+	let directoryCreated = false;
+
+	return {
+		async record(record) {
+			const entry: PaymentLedgerEntry = {
+				id: randomUUID(),
+				timestamp: new Date().toISOString(),
+				...record,
+			};
+
+			const write = writes.then(async () => {
+				if (!directoryCreated) {
+					await mkdir(dirname(path), { recursive: true });
+					directoryCreated = true;
+				}
+				await appendFile(path, `${JSON.stringify(entry)}\n`, "utf8");
+			});
+			writes = write.catch(() => undefined);
+
+			try {
+				await write;
+			} catch (error) {
+				// Losing a ledger line must never fail the paid request itself.
+				log.error("Failed to record entry", { entry, error });
+			}
+		},
+		async query(filter = {}) {
+			await writes;
+			const limit = filter.limit ?? DEFAULT_QUERY_LIMIT;
+			const entries: PaymentLedgerEntry[] = [];
+			const lines = createInterface({
+				input: createReadStream(path, "utf8"),
+				crlfDelay: Number.POSITIVE_INFINITY,
+			});
+
+			try {
+				for await (const line of lines) {
+					if (line.trim().length === 0) {
+						continue;
+					}
+					const entry = JSON.parse(line) as PaymentLedgerEntry;
+					if (!matchesFilter(entry, filter)) {
+						continue;
+					}
+					entries.push(entry);
+					if (entries.length > limit) {
+						entries.shift();
+					}
+				}
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+					return [];
+				}
+				throw error;
+			}
+
+			return entries;
+		},
+	};
+}
+
+export const paymentLedger = createFileLedger(env.PAYMENT_LEDGER_PATH);
@@ -0,0 +1,98 @@
+import { createHash } from "node:crypto";
+import type { PaymentPayload } from "x402/types";
+
+/**
+ * Tracks signed payment authorizations so one payload can't be spent by
+ * several concurrent requests. The in-memory store only sees its own
+ * process, so behind more than one instance a payload can be replayed on
+ * another; `reserve` must then be an atomic set-if-absent with expiry in
+ * a shared store.
+ */
+export interface PaymentNonceStore {
+	/**
+	 * Claims the key for an in-flight request. Resolves to false when the key
+	 * is already reserved or consumed. Reservations lapse after `ttlSeconds`
+	 * so an abandoned request can't lock a payload forever; callers pass the
+	 * authorization's remaining validity, after which it can't be settled.
+	 */
+	reserve(key: string, ttlSeconds: number): Promise<boolean>;
+	/** Drops a reservation so the payload can be presented again. */
+	release(key: string): Promise<void>;
+	/** Marks the key as settled; it stays rejected for `ttlSeconds`. */
+	consume(key: string, ttlSeconds: number): Promise<void>;
+}
+
+interface NonceEntry {
+	state: "reserved" | "consumed";
+	expiresAt: number;
+}
+
+export function createMemoryNonceStore(): PaymentNonceStore {
+	const entries = new Map<string, NonceEntry>();
+
+	const prune = (now: number) => {
+		for (const [key, entry] of entries) {
+			if (entry.expiresAt <= now) {
+				entries.delete(key);
+			}
+		}
+	};
+
+	return {
+		async reserve(key, ttlSeconds) {
+			const now = Date.now();
+			prune(now);
+			if (entries.has(key)) {
+				return false;
+			}
+			entries.set(key, {
+				state: "reserved",
+				expiresAt: now + ttlSeconds * 1000,
+			});
+			return true;
+		},
+		async release(key) {
+			if (entries.get(key)?.state === "reserved") {
+				entries.delete(key);
+			}
+		},
+		async consume(key, ttlSeconds) {
+			entries.set(key, {
+				state: "consumed",
+				expiresAt: Date.now() + ttlSeconds * 1000,
+			});
+		},
+	};
+}
+
+/** Process-wide store shared by the HTTP proxy and the MCP server. */
+export const paymentNonceStore = createMemoryNonceStore();
+
+export function getPaymentNonceKey(payment: PaymentPayload) {
+	const { payload } = payment;
+	if ("authorization" in payload) {
+		const { from, nonce } = payload.authorization;
+		return `${payment.network}:${from.toLowerCase()}:${nonce.toLowerCase()}`;
+	}
+
+	const digest = createHash("sha256").update(payload.transaction).digest("hex");
+	return `${payment.network}:${digest}`;
+}
+
+/**
+ * How long a consumed authorization must stay on record: until it can no
+ * longer be submitted, and never less than `minimumSeconds`.
+ */
+export function getPaymentNonceTtl(
+	payment: PaymentPayload,
+	minimumSeconds: number,
+) {
+	const { payload } = payment;
+	if (!("authorization" in payload)) {
+		return minimumSeconds;
+	}
+
+	const validBefore = Number(payload.authorization.validBefore);
+	const remaining = Math.ceil(validBefore - Date.now() / 1000);
+	return Math.max(remaining, minimumSeconds);
+}
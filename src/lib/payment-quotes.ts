@@ -0,0 +1,67 @@
+import { createHash } from "node:crypto";
+import { env } from "@/lib/env";
+import { createTokenSigner, type SignedTokenClaims } from "@/lib/signed-tokens";
+
+/** The exact request a quote is issued for. */
+export interface QuotedRequest {
+	/** What is being bought, e.g. `POST /openrouter/api/v1/chat/completions`. */
+	target: string;
+	/** The body (or tool arguments) exactly as they will be sent. */
+	body: string;
+}
+
+export interface PaymentQuote {
+	token: string;
+	priceUsd: number;
+	expiresAt: number;
+}
+
+interface PaymentQuoteClaims extends SignedTokenClaims {
+	/** Digest of the quoted target and body. */
+	req: string;
+	usd: number;
+}
+
+const quoteTokens = createTokenSigner<PaymentQuoteClaims>("x402-payment-quote");
+
+function digestRequest(request: QuotedRequest) {
+	return createHash("sha256")
+		.update(request.target)
+		.update("\n")
+		.update(request.body)
+		.digest("base64url");
+}
+
+/** Signs `priceUsd` for `request`, valid for `QUOTE_TTL_SECONDS`. */
+export function createPaymentQuote(
+	request: QuotedRequest,
+	priceUsd: number,
+): PaymentQuote {
+	const expiresAt = Date.now() + env.QUOTE_TTL_SECONDS * 1_000;
+	return {
+		token: quoteTokens.sign({
+			req: digestRequest(request),
+			usd: priceUsd,
+			exp: expiresAt,
+		}),
+		priceUsd,
+		expiresAt,
+	};
+}
+
+/**
+ * The USD price `token` promises, when it is an unexpired quote for exactly
+ * this request; a different body or target never matches.
+ */
+export function resolveQuotedPrice(token: string, request: QuotedRequest) {
+	const claims = quoteTokens.verify(token);
+	if (
+		!claims ||
+		claims.req !== digestRequest(request) ||
+		typeof claims.usd !== "number"
+	) {
+		return undefined;
+	}
+
+	return claims.usd;
+}
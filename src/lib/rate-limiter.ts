@@ -0,0 +1,214 @@
+import { currentDay } from "@/lib/utils";
+
+/**
+ * Per-payer limits for a route or tool. Omitted limits are unlimited.
+ */
+export interface RateLimitPolicy {
+	/** Token bucket: up to `burst` requests at once, refilled at `perMinute`. */
+	requests?: { burst: number; perMinute: number };
+	/**
+	 * Atomic units of the paid asset (1 USDC = 1_000_000) one payer may
+	 * spend per UTC day.
+	 */
+	maxSpendPerDay?: bigint;
+	/** Also apply the request bucket to each client IP. */
+	perIp?: boolean;
+}
+
+/** Where a request's limits apply, before the payer is known. */
+export interface RateLimitTarget {
+	/** Limits are tracked separately per scope, e.g. a route or tool. */
+	scope: string;
+	policy: RateLimitPolicy;
+	ip?: string;
+}
+
+export interface RateLimitRequest extends RateLimitTarget {
+	payer: string;
+	/** Atomic amount the request is authorized to spend. */
+	amount: bigint;
+}
+
+export interface RateLimitLease {
+	/** Counts `actual` (defaults to the authorized amount) as spent. */
+	commit(actual?: bigint): void;
+	/** Returns the held spend, e.g. when the payment was not settled. */
+	release(): void;
+}
+
+export type RateLimitResult =
+	| { ok: true; lease: RateLimitLease }
+	| { ok: false; error: string; retryAfter: number };
+
+interface TokenBucket {
+	tokens: number;
+	updatedAt: number;
+}
+
+/** Idle buckets are dropped once there are this many. */
+const MAX_BUCKETS = 10_000;
+
+function secondsUntilNextDay() {
+	const now = new Date();
+	const midnight = Date.UTC(
+		now.getUTCFullYear(),
+		now.getUTCMonth(),
+		now.getUTCDate() + 1,
+	);
+	return Math.ceil((midnight - now.getTime()) / 1_000);
+}
+
+/**
+ * Best-effort client address from the proxy headers. Only trust it behind a
+ * proxy that overwrites `X-Forwarded-For`.
+ */
+export function getClientIp(
+	headers: Headers | Record<string, string | string[] | undefined>,
+) {
+	const read = (name: string) => {
+		if (headers instanceof Headers) {
+			return headers.get(name) ?? undefined;
+		}
+		const value = headers[name];
+		return Array.isArray(value) ? value[0] : value;
+	};
+
+	const forwarded = read("x-forwarded-for")?.split(",")[0]?.trim();
+	return forwarded || read("x-real-ip") || undefined;
+}
+
+/**
+ * In-memory token buckets and daily spend per payer. Requests take a token
+ * up front; spend is held at the authorized amount and settled to what was
+ * actually charged, so concurrent requests cannot overshoot the ceiling.
+ */
+export function createRateLimiter() {
+	const buckets = new Map<string, TokenBucket>();
+	const spent = new Map<string, bigint>();
+	let spentDay = currentDay();
+
+	const refill = (key: string, burst: number, perMinute: number) => {
+		const now = Date.now();
+		const bucket = buckets.get(key) ?? { tokens: burst, updatedAt: now };
+		bucket.tokens = Math.min(
+			burst,
+			bucket.tokens + ((now - bucket.updatedAt) / 60_000) * perMinute,
+		);
+		bucket.updatedAt = now;
+		buckets.set(key, bucket);
+		return bucket;
+	};
+
+	const prune = () => {
+		if (buckets.size < MAX_BUCKETS) {
+			return;
+		}
+		// A bucket that has been idle long enough to refill is a fresh one.
+		const cutoff = Date.now() - 60 * 60 * 1_000;
+		for (const [key, bucket] of buckets) {
+			if (bucket.updatedAt < cutoff) {
+				buckets.delete(key);
+			}
+		}
+	};
+
+	const getSpent = (key: string) => {
+		const day = currentDay();
+		if (day !== spentDay) {
+			spent.clear();
+			spentDay = day;
+		}
+		return spent.get(key) ?? BigInt(0);
+	};
+
+	const adjustSpent = (key: string, day: string, delta: bigint) => {
+		// Spend from a previous day no longer counts against anything.
+		if (day === spentDay) {
+			spent.set(key, getSpent(key) + delta);
+		}
+	};
+
+	const acquire = (request: RateLimitRequest): RateLimitResult => {
+		const { scope, policy, ip, amount } = request;
+		const payer = request.payer.toLowerCase();
+		const spendKey = `${scope}|${payer}`;
+
+		if (
+			policy.maxSpendPerDay !== undefined &&
+			getSpent(spendKey) + amount > policy.maxSpendPerDay
+		) {
+			return {
+				ok: false,
+				error: `Daily spend limit of ${policy.maxSpendPerDay} reached`,
+				retryAfter: secondsUntilNextDay(),
+			};
+		}
+
+		if (policy.requests) {
+			prune();
+			const { burst, perMinute } = policy.requests;
+			const keys = [`${scope}|payer:${payer}`];
+			if (policy.perIp && ip) {
+				keys.push(`${scope}|ip:${ip}`);
+			}
+
+			const limited = keys
+				.map((key) => refill(key, burst, perMinute))
+				.filter((bucket) => bucket.tokens < 1);
+			if (limited.length > 0) {
+				const deficit = Math.max(...limited.map((bucket) => 1 - bucket.tokens));
+				return {
+					ok: false,
+					error: "Too many requests",
+					retryAfter: Math.max(1, Math.ceil((deficit / perMinute) * 60)),
+				};
+			}
+
+			for (const key of keys) {
+				const bucket = buckets.get(key);
+				if (bucket) {
+					bucket.tokens -= 1;
+				}
+			}
+		}
+
+		if (policy.maxSpendPerDay === undefined) {
+			return { ok: true, lease: { commit() {}, release() {} } };
+		}
+
+		const day = spentDay;
+		let finished = false;
+		adjustSpent(spendKey, day, amount);
+
+		return {
+			ok: true,
+			lease: {
+				commit(actual = amount) {
+					if (finished) {
+						return;
+					}
+					finished = true;
+					if (actual < amount) {
+						adjustSpent(spendKey, day, actual - amount);
+					}
+				},
+				release() {
+					if (finished) {
+						return;
+					}
+					finished = true;
+					adjustSpent(spendKey, day, -amount);
+				},
+			},
+		};
+	};
+
+	return {
+		acquire,
+	};
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+/** Shared by the HTTP proxy and the MCP server so limits span both. */
+export const rateLimiter = createRateLimiter();
@@ -0,0 +1,121 @@
+import { createHash } from "node:crypto";
+import { env } from "@/lib/env";
+
+/** An upstream response as it is replayed on a cache hit. */
+export interface CachedResponse {
+	status: number;
+	contentType: string | null;
+	/** The full body; for SSE, the upstream events exactly as streamed. */
+	body: string;
+}
+
+/**
+ * Holds cached responses. A miss only costs an upstream call, so each
+ * instance keeping its own cache is safe; a shared store just raises the
+ * hit rate.
+ */
+export interface ResponseCacheStore {
+	get(key: string): Promise<CachedResponse | undefined>;
+	set(key: string, response: CachedResponse, ttlMs: number): Promise<void>;
+}
+
+export interface MemoryResponseCacheOptions {
+	maxEntries: number;
+	/** Total size of the cached bodies; larger single bodies are not stored. */
+	maxBytes: number;
+}
+
+interface MemoryCacheEntry {
+	response: CachedResponse;
+	expiresAt: number;
+	size: number;
+}
+
+/** Least-recently-used eviction within both limits. */
+export function createMemoryResponseCacheStore(
+	options: MemoryResponseCacheOptions,
+): ResponseCacheStore {
+	const entries = new Map<string, MemoryCacheEntry>();
+	let totalBytes = 0;
+
+	const remove = (key: string) => {
+		const entry = entries.get(key);
+		if (entry) {
+			entries.delete(key);
+			totalBytes -= entry.size;
+		}
+	};
+
+	return {
+		async get(key) {
+			const entry = entries.get(key);
+			if (!entry) {
+				return undefined;
+			}
+			if (entry.expiresAt <= Date.now()) {
+				remove(key);
+				return undefined;
+			}
+			// Re-inserting keeps the Map ordered from least to most recently used.
+			entries.delete(key);
+			entries.set(key, entry);
+			return { ...entry.response };
+		},
+		async set(key, response, ttlMs) {
+			const size = Buffer.byteLength(response.body);
+			if (size > options.maxBytes) {
+				return;
+			}
+
+			remove(key);
+			entries.set(key, {
+				response: { ...response },
+				expiresAt: Date.now() + ttlMs,
+				size,
+			});
+			totalBytes += size;
+
+			for (const oldest of entries.keys()) {
+				if (
+					entries.size <= options.maxEntries &&
+					totalBytes <= options.maxBytes
+				) {
+					break;
+				}
+				remove(oldest);
+			}
+		},
+	};
+}
+
+function canonicalize(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(canonicalize);
+	}
+	if (value && typeof value === "object") {
+		return Object.fromEntries(
+			Object.keys(value)
+				.sort()
+				.map((key) => [
+					key,
+					canonicalize((value as Record<string, unknown>)[key]),
+				]),
+		);
+	}
+	return value;
+}
+
+/**
+ * Hashes the parts of a request into a cache key. Object keys are sorted
+ * first, so bodies that differ only in key order share an entry.
+ */
+export function createResponseCacheKey(...parts: unknown[]) {
+	return createHash("sha256")
+		.update(JSON.stringify(parts.map(canonicalize)))
+		.digest("base64url");
+}
+
+export const responseCacheStore = createMemoryResponseCacheStore({
+	maxEntries: env.RESPONSE_CACHE_MAX_ENTRIES,
+	maxBytes: env.RESPONSE_CACHE_MAX_BYTES,
+});
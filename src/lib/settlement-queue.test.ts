@@ -0,0 +1,101 @@
+import { mkdir, mkdtemp, readFile, rmdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { PaymentPayload, PaymentRequirements } from "x402/types";
+import { describe, expect, it, vi } from "vitest";
+import {
+	createFileSettlementQueue,
+	type SettlementJob,
+	type SettlementJobInput,
+} from "@/lib/settlement-queue";
+
+const input: SettlementJobInput = {
+	transport: "http",
+	payment: {} as PaymentPayload,
+	requirement: {} as PaymentRequirements,
+};
+
+function createJob(id: string): SettlementJob {
+	const now = new Date().toISOString();
+	return {
+		...input,
+		id,
+		createdAt: now,
+		updatedAt: now,
+		status: "pending",
+		attempts: 0,
+		nextAttemptAt: Date.now(),
+	};
+}
+
+async function createQueuePath() {
+	return join(
+		await mkdtemp(join(tmpdir(), "settlement-queue-")),
+		"queue.jsonl",
+	);
+}
+
+describe("createFileSettlementQueue", () => {
+	it("skips a corrupt line and keeps the jobs around it", async () => {
+		const path = await createQueuePath();
+		const truncated = JSON.stringify(createJob("c")).slice(0, 40);
+		await writeFile(
+			path,
+			`${JSON.stringify(createJob("a"))}\nnot json\n${JSON.stringify(createJob("b"))}\n${truncated}`,
+		);
+
+		const queue = createFileSettlementQueue({ path, maxAttempts: 3 });
+		expect((await queue.list()).map((job) => job.id)).toEqual(["a", "b"]);
+
+		const job = await queue.enqueue(input);
+		const reloaded = createFileSettlementQueue({ path, maxAttempts: 3 });
+		expect((await reloaded.list()).map((entry) => entry.id)).toEqual([
+			"a",
+			"b",
+			job.id,
+		]);
+		expect(await readFile(`${path}.corrupt`, "utf8")).toBe(
+			`not json\n${truncated}\n`,
+		);
+	});
+
+	it("retries a load that failed instead of failing every call", async () => {
+		const path = await createQueuePath();
+		// Reading a directory fails with EISDIR.
+		await mkdir(path);
+		const queue = createFileSettlementQueue({ path, maxAttempts: 3 });
+		await expect(queue.list()).rejects.toThrow();
+
+		await rmdir(path);
+		await expect(queue.list()).resolves.toEqual([]);
+		await expect(queue.enqueue(input)).resolves.toMatchObject({
+			status: "pending",
+		});
+	});
+});
+
+describe("settled jobs", () => {
+	it("are dropped from memory and from the file", async () => {
+		const path = await createQueuePath();
+		const queue = createFileSettlementQueue({ path, maxAttempts: 3 });
+		const completed: string[] = [];
+		queue.register("http", {
+			settle: async () => ({
+				success: true,
+				transaction: "0xabc",
+				network: "base-sepolia",
+			}),
+			complete: async (job) => {
+				completed.push(job.id);
+			},
+		});
+
+		const job = await queue.enqueue(input);
+		await vi.waitFor(() => expect(completed).toEqual([job.id]));
+		expect(await queue.list()).toEqual([]);
+
+		const reloaded = createFileSettlementQueue({ path, maxAttempts: 3 });
+		expect(await reloaded.list()).toEqual([]);
+		expect(await readFile(path, "utf8")).toBe("");
+	});
+});
@@ -0,0 +1,349 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type {
+	PaymentPayload,
+	PaymentRequirements,
+	SettleResponse,
+} from "x402/types";
+import { env } from "@/lib/env";
+import { readJsonLines, rewriteJsonLines } from "@/lib/json-lines";
+import { createLogger } from "@/lib/logger";
+import type { PaymentLedgerEntry } from "@/lib/payment-ledger";
+
+const log = createLogger("settlement-queue");
+
+export type SettlementJobStatus = "pending" | "settled" | "dead";
+
+export interface SettlementJob {
+	id: string;
+	createdAt: string;
+	updatedAt: string;
+	status: SettlementJobStatus;
+	transport: PaymentLedgerEntry["transport"];
+	payment: PaymentPayload;
+	/** Requirement the payment was signed against. */
+	requirement: PaymentRequirements;
+	subject?: string;
+	/** Metric label for the resource, when it differs from the resource. */
+	resourceLabel?: string;
+	attempts: number;
+	nextAttemptAt: number;
+	transaction?: string;
+	lastError?: string;
+}
+
+export type SettlementJobInput = Pick<
+	SettlementJob,
+	"transport" | "payment" | "requirement" | "subject" | "resourceLabel"
+>;
+
+export interface SettlementHandler {
+	settle(job: SettlementJob): Promise<SettleResponse>;
+	/** Called once a job has settled or been dead-lettered. */
+	complete(job: SettlementJob): Promise<void>;
+}
+
+export interface SettlementJobFilter {
+	status?: SettlementJobStatus;
+	limit?: number;
+}
+
+export interface SettlementQueueOptions {
+	path: string;
+	/** Attempts before a job is dead-lettered. */
+	maxAttempts: number;
+	baseDelayMs?: number;
+	maxDelayMs?: number;
+}
+
+const DEFAULT_BASE_DELAY_MS = 1_000;
+const DEFAULT_MAX_DELAY_MS = 10 * 60 * 1_000;
+/** Appends between rewrites of the file down to the unsettled jobs. */
+const COMPACT_AFTER_LINES = 1_000;
+
+function isSettlementJob(value: unknown): value is SettlementJob {
+	const job = value as SettlementJob | null;
+	return (
+		typeof job === "object" &&
+		job !== null &&
+		typeof job.id === "string" &&
+		typeof job.status === "string"
+	);
+}
+
+/**
+ * Settles verified payments in the background so responses don't wait on
+ * the chain. Every state change is appended to a JSON Lines file and the
+ * latest line per job wins on reload, so pending jobs survive restarts.
+ * Settled jobs are dropped, leaving their record to the ledger: the file
+ * is rewritten to the pending and dead jobs on reload and every
+ * `COMPACT_AFTER_LINES` appends. Lines that don't parse, such as one cut
+ * short by a crash, are moved to `<path>.corrupt` on reload.
+ * Failed attempts back off exponentially; jobs that run out of attempts are
+ * dead-lettered and can be inspected and retried.
+ *
+ * Jobs run in this process, so queued mode needs a long-running server
+ * rather than a serverless function that is frozen after each response.
+ */
+export function createFileSettlementQueue(options: SettlementQueueOptions) {
+	const {
+		path,
+		maxAttempts,
+		baseDelayMs = DEFAULT_BASE_DELAY_MS,
+		maxDelayMs = DEFAULT_MAX_DELAY_MS,
+	} = options;
+	const jobs = new Map<string, SettlementJob>();
+	const handlers = new Map<SettlementJob["transport"], SettlementHandler>();
+
+	// The directory is created on the first write, so importing the queue
+	// never touches the disk.
+	let writes: Promise<unknown> = Promise.resolve();
+	let directoryCreated = false;
+	let appendedLines = 0;
+	let loaded: Promise<void> | undefined;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let running = false;
+
+	const load = () => {
+		loaded ??= (async () => {
+			await writes;
+			const { records, corrupt } = await readJsonLines(
+				path,
+				isSettlementJob,
+				log,
+			);
+			for (const job of records) {
+				jobs.set(job.id, job);
+			}
+			for (const job of jobs.values()) {
+				if (job.status === "settled") {
+					jobs.delete(job.id);
+				}
+			}
+			// Also drops any bad lines, so the next append can't run on from a
+			// partial one.
+			if (corrupt.length > 0 || records.length > jobs.size) {
+				await rewriteJsonLines(path, [...jobs.values()]);
+			}
+		})().catch((error) => {
+			// Left for the next caller to retry rather than failing every
+			// call until a restart.
+			loaded = undefined;
+			throw error;
+		});
+		return loaded;
+	};
+
+	const persist = async (job: SettlementJob) => {
+		job.updatedAt = new Date().toISOString();
+		const line = `${JSON.stringify(job)}\n`;
+		const write = writes.then(async () => {
+			if (!directoryCreated) {
+				await mkdir(dirname(path), { recursive: true });
+				directoryCreated = true;
+			}
+			if (appendedLines + 1 < COMPACT_AFTER_LINES) {
+				await appendFile(path, line, "utf8");
+				appendedLines += 1;
+				return;
+			}
+			// Written from memory, so `job` is included unless it has settled.
+			await rewriteJsonLines(
+				path,
+				[...jobs.values()].filter((entry) => entry.status !== "settled"),
+			);
+			appendedLines = 0;
+		});
+		writes = write.catch(() => undefined);
+
+		try {
+			await write;
+		} catch (error) {
+			log.error("Failed to persist job", { jobId: job.id, error });
+		}
+	};
+
+	const backoff = (attempts: number) =>
+		Math.min(maxDelayMs, baseDelayMs * 2 ** (attempts - 1));
+
+	const attempt = async (job: SettlementJob, handler: SettlementHandler) => {
+		job.attempts += 1;
+
+		let error: string | undefined;
+		try {
+			const settlement = await handler.settle(job);
+			if (settlement.success) {
+				job.status = "settled";
+				job.transaction = settlement.transaction;
+				job.lastError = undefined;
+			} else {
+				error = settlement.errorReason ?? "Settlement was not successful";
+			}
+		} catch (settleError) {
+			error =
+				settleError instanceof Error
+					? settleError.message
+					: "Settlement failed";
+		}
+
+		if (error) {
+			job.lastError = error;
+			if (job.attempts >= maxAttempts) {
+				job.status = "dead";
+				log.error("Dead-lettered job", {
+					jobId: job.id,
+					attempts: job.attempts,
+					error,
+				});
+			} else {
+				job.nextAttemptAt = Date.now() + backoff(job.attempts);
+				log.warn("Settlement attempt failed", {
+					jobId: job.id,
+					attempts: job.attempts,
+					error,
+				});
+			}
+		}
+
+		await persist(job);
+		if (job.status !== "pending") {
+			await handler.complete(job);
+		}
+		if (job.status === "settled") {
+			jobs.delete(job.id);
+		}
+	};
+
+	const nextDueJob = () =>
+		[...jobs.values()]
+			.filter((job) => job.status === "pending" && handlers.has(job.transport))
+			.sort((a, b) => a.nextAttemptAt - b.nextAttemptAt)[0];
+
+	const schedule = () => {
+		if (timer) {
+			clearTimeout(timer);
+			timer = undefined;
+		}
+		if (running) {
+			return;
+		}
+
+		const job = nextDueJob();
+		if (!job) {
+			return;
+		}
+
+		timer = setTimeout(run, Math.max(0, job.nextAttemptAt - Date.now()));
+		// Never keep the process alive just for pending settlements.
+		timer.unref?.();
+	};
+
+	const run = async () => {
+		timer = undefined;
+		running = true;
+		try {
+			for (
+				let job = nextDueJob();
+				job && job.nextAttemptAt <= Date.now();
+				job = nextDueJob()
+			) {
+				const handler = handlers.get(job.transport);
+				if (!handler) {
+					break;
+				}
+				await attempt(job, handler);
+			}
+		} finally {
+			running = false;
+			schedule();
+		}
+	};
+
+	const enqueue = async (input: SettlementJobInput) => {
+		await load();
+
+		const now = new Date().toISOString();
+		const job: SettlementJob = {
+			id: randomUUID(),
+			createdAt: now,
+			updatedAt: now,
+			status: "pending",
+			attempts: 0,
+			nextAttemptAt: Date.now(),
+			...input,
+		};
+		jobs.set(job.id, job);
+		await persist(job);
+		schedule();
+
+		return job;
+	};
+
+	/**
+	 * Jobs for `transport` only run once a handler is registered for it.
+	 * Every payment engine registers on creation, so only the first handler
+	 * per transport is kept and later calls are no-ops. Persisted jobs record
+	 * nothing but their transport, so all engines of one transport must share
+	 * a facilitator and ledger.
+	 */
+	const register = (
+		transport: SettlementJob["transport"],
+		handler: SettlementHandler,
+	) => {
+		if (handlers.has(transport)) {
+			return;
+		}
+		handlers.set(transport, handler);
+		load()
+			.then(schedule)
+			.catch((error) => {
+				log.error("Failed to load jobs", { error });
+			});
+	};
+
+	const list = async (filter: SettlementJobFilter = {}) => {
+		await load();
+		const matching = [...jobs.values()].filter(
+			(job) => !filter.status || job.status === filter.status,
+		);
+		return filter.limit ? matching.slice(-filter.limit) : matching;
+	};
+
+	const get = async (id: string) => {
+		await load();
+		return jobs.get(id);
+	};
+
+	/** Moves a dead-lettered job back to pending with a fresh attempt budget. */
+	const retry = async (id: string) => {
+		await load();
+		const job = jobs.get(id);
+		if (!job || job.status !== "dead") {
+			return false;
+		}
+
+		job.status = "pending";
+		job.attempts = 0;
+		job.nextAttemptAt = Date.now();
+		await persist(job);
+		schedule();
+
+		return true;
+	};
+
+	return {
+		enqueue,
+		register,
+		list,
+		get,
+		retry,
+	};
+}
+
+export type SettlementQueue = ReturnType<typeof createFileSettlementQueue>;
+
+export const settlementQueue = createFileSettlementQueue({
+	path: env.SETTLEMENT_QUEUE_PATH,
+	maxAttempts: env.SETTLEMENT_MAX_ATTEMPTS,
+});
@@ -0,0 +1,65 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { env } from "@/lib/env";
+
+/** Every signed token carries its own expiry, in epoch milliseconds. */
+export interface SignedTokenClaims {
+	exp: number;
+}
+
+/**
+ * Signs short JSON claims as `<claims>.<hmac>`, both base64url. Each
+ * `purpose` gets its own key, derived from `SESSION_SECRET` or the service
+ * key, so a token issued for one purpose never verifies as another.
+ */
+export function createTokenSigner<T extends SignedTokenClaims>(
+	purpose: string,
+) {
+	const secret = createHmac(
+		"sha256",
+		env.SESSION_SECRET ?? env.SERVICE_PRIVATE_KEY,
+	)
+		.update(purpose)
+		.digest("hex");
+
+	const hmac = (payload: string) =>
+		createHmac("sha256", secret).update(payload).digest("base64url");
+
+	const sign = (claims: T) => {
+		const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+		return `${payload}.${hmac(payload)}`;
+	};
+
+	/** Resolves the claims of an authentic, unexpired token. */
+	const verify = (token: string): T | undefined => {
+		const [payload, signature] = token.split(".");
+		if (!payload || !signature) {
+			return undefined;
+		}
+
+		const expected = Buffer.from(hmac(payload));
+		const actual = Buffer.from(signature);
+		if (
+			expected.length !== actual.length ||
+			!timingSafeEqual(expected, actual)
+		) {
+			return undefined;
+		}
+
+		try {
+			const claims = JSON.parse(
+				Buffer.from(payload, "base64url").toString("utf8"),
+			) as T;
+			if (typeof claims.exp !== "number" || claims.exp <= Date.now()) {
+				return undefined;
+			}
+			return claims;
+		} catch {
+			return undefined;
+		}
+	};
+
+	return {
+		sign,
+		verify,
+	};
+}
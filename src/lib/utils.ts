@@ -0,0 +1,18 @@
+export const JSON_CONTENT_TYPE = { "Content-Type": "application/json" };
+
+/** Serializes `body` as a JSON response; `headers` are added to its type. */
+export function jsonResponse(
+	body: unknown,
+	status = 200,
+	headers: Record<string, string> = {},
+) {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { ...JSON_CONTENT_TYPE, ...headers },
+	});
+}
+
+/** Today's UTC date as `YYYY-MM-DD`, the key daily limits reset on. */
+export function currentDay() {
+	return new Date().toISOString().slice(0, 10);
+}
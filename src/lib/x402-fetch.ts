@@ -0,0 +1,96 @@
+import type { PaymentRequirements } from "x402/types";
+import {
+	decodePaymentReceipt,
+	type PaymentClient,
+	settleReservation,
+} from "@/lib/payment-client";
+
+const X_PAYMENT_HEADER = "X-PAYMENT";
+const X_PAYMENT_RESPONSE_HEADER = "X-PAYMENT-RESPONSE";
+
+interface PaymentRequiredBody {
+	x402Version?: number;
+	accepts?: PaymentRequirements[];
+}
+
+async function readPaymentRequired(response: Response) {
+	try {
+		const body = (await response.clone().json()) as PaymentRequiredBody;
+		return Array.isArray(body.accepts) && body.accepts.length > 0
+			? body
+			: undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/** The receipt a paid response carries in `X-PAYMENT-RESPONSE`, if any. */
+export function getPaymentReceipt(response: Response) {
+	const header = response.headers.get(X_PAYMENT_RESPONSE_HEADER);
+	return header ? decodePaymentReceipt(header) : undefined;
+}
+
+/**
+ * Wraps `fetch` so a 402 is answered with a payment from `client` and the
+ * request retried once. Throws when the client refuses to pay (no usable
+ * requirement, or a spend cap or payTo allowlist would be breached).
+ *
+ * Metered streams report their receipt after the body, so the reservation
+ * for a streamed response is kept at the full authorized amount.
+ */
+export function createPayingFetch(
+	client: PaymentClient,
+	fetchImpl: typeof fetch = fetch,
+): typeof fetch {
+	return async (input, init) => {
+		// A Request body can only be read once; keep a copy for the retry.
+		const retryInput = input instanceof Request ? input.clone() : input;
+		const response = await fetchImpl(input, init);
+		if (response.status !== 402) {
+			return response;
+		}
+
+		const headers = new Headers(
+			init?.headers ?? (input instanceof Request ? input.headers : undefined),
+		);
+		if (headers.has(X_PAYMENT_HEADER)) {
+			return response;
+		}
+
+		const paymentRequired = await readPaymentRequired(response);
+		if (!paymentRequired?.accepts) {
+			return response;
+		}
+
+		const signed = await client.pay(
+			paymentRequired.accepts,
+			paymentRequired.x402Version ?? 1,
+		);
+		if (!signed.ok) {
+			throw new Error(`x402 payment refused: ${signed.error}`);
+		}
+
+		headers.set(X_PAYMENT_HEADER, signed.payment);
+
+		let paidResponse: Response;
+		try {
+			paidResponse = await fetchImpl(retryInput, { ...init, headers });
+		} catch (error) {
+			signed.reservation.release();
+			throw error;
+		}
+
+		const streamed =
+			paidResponse.ok &&
+			(paidResponse.headers.get("content-type") ?? "").includes(
+				"text/event-stream",
+			);
+		settleReservation(
+			signed.reservation,
+			getPaymentReceipt(paidResponse),
+			streamed,
+		);
+
+		return paidResponse;
+	};
+}
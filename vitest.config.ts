@@ -0,0 +1,26 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+// Process-wide stores fall back to these paths; tests that need a store of
+// their own create it in a fresh directory.
+const dataDir = join(tmpdir(), `x402-tests-${process.pid}`);
+
+export default defineConfig({
+	resolve: {
+		alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+	},
+	test: {
+		include: ["src/**/*.test.ts"],
+		env: {
+			SERVICE_PRIVATE_KEY: `0x${"11".repeat(32)}`,
+			OPENROUTER_API_KEY: "test",
+			FACILITATOR: "local",
+			LOG_LEVEL: "error",
+			PAYMENT_LEDGER_PATH: join(dataDir, "payment-ledger.jsonl"),
+			SETTLEMENT_QUEUE_PATH: join(dataDir, "settlement-queue.jsonl"),
+			CREDIT_SESSION_STORE_PATH: join(dataDir, "credit-sessions.jsonl"),
+		},
+	},
+});